@@ -1,15 +1,84 @@
 /**
  * BattleLogPanel — Streaming battle log display with semantic highlighting
  * Performance optimized: renders only last 50 entries, throttled scroll
+ * Replay: re-streams a recorded battle (seed + inputs) at the selected speed
  */
 
 import { useEffect, useRef, useCallback } from 'react';
 import { useGameStore } from '../store/useGameStore';
+import { ReplayManager, type BattleReplay } from '../core/BattleReplay';
+import { simulationService } from '../core/SimulationService';
 
 export function BattleLogPanel() {
-    const { battleLogs, battleSpeed, setBattleSpeed, isBattling } = useGameStore();
+    const { battleLogs, battleSpeed, setBattleSpeed, isBattling, lastReplay, isReplaying } = useGameStore();
     const scrollRef = useRef<HTMLDivElement>(null);
     const rafRef = useRef<number>(0);
+    const replayAbortRef = useRef(false);
+
+    // Stop any running replay stream on unmount
+    useEffect(() => () => { replayAbortRef.current = true; }, []);
+
+    /** Regenerate the battle from its record and stream the logs at the current speed */
+    const playReplay = useCallback(async (replay: BattleReplay) => {
+        const store = useGameStore.getState();
+        if (store.isBattling || store.isReplaying) return;
+
+        replayAbortRef.current = false;
+        store.setReplaying(true);
+
+        try {
+            // Regenerated on the simulation worker so long battles don't block the UI
+            const result = await simulationService.battle(replay);
+            useGameStore.setState({ battleLogs: [] });
+            store.addBattleLog({
+                time: 0, actor: 'weapon', action: 'attack',
+                message: `📼 リプレイ再生 — Stage ${replay.stage} / seed ${replay.seed.toString(16)}`,
+            });
+            if (ReplayManager.isOutdated(replay)) {
+                store.addBattleLog({
+                    time: 0, actor: 'weapon', action: 'defend',
+                    message: `⚠️ 旧バージョン(v${replay.version})のリプレイです。現在のルールで再生するため、記録時と結果が異なる場合があります`,
+                });
+            }
+
+            for (const log of result.logs) {
+                if (replayAbortRef.current) break;
+                const speed = useGameStore.getState().battleSpeed;
+                if (speed < 100) {
+                    await new Promise(r => setTimeout(r, speed >= 10 ? 15 : 150));
+                }
+                store.addBattleLog(log);
+            }
+        } finally {
+            store.setReplaying(false);
+        }
+    }, []);
+
+    const handleExportReplay = useCallback(async () => {
+        if (!lastReplay) return;
+        const code = ReplayManager.encode(lastReplay);
+        try {
+            await navigator.clipboard.writeText(code);
+            useGameStore.getState().showToast('📋 リプレイコードをコピーしました');
+        } catch {
+            window.prompt('リプレイコード', code);
+        }
+    }, [lastReplay]);
+
+    const handleImportReplay = useCallback(() => {
+        const code = window.prompt('リプレイコードを貼り付けてください');
+        if (!code) return;
+        const replay = ReplayManager.decode(code);
+        if (!replay) {
+            useGameStore.getState().showToast('⚠️ 無効なリプレイコードです');
+            return;
+        }
+        if (ReplayManager.isOutdated(replay)) {
+            useGameStore.getState().showToast('⚠️ 旧バージョンのリプレイ — 記録時と結果が異なる場合があります');
+        }
+        useGameStore.getState().setLastReplay(replay);
+        playReplay(replay);
+    }, [playReplay]);
 
     // Throttled scroll via requestAnimationFrame
     const scheduleScroll = useCallback(() => {
@@ -78,7 +147,37 @@ export function BattleLogPanel() {
                             {s}x
                         </button>
                     ))}
+                    <button
+                        className="speed-btn"
+                        onClick={() => lastReplay && playReplay(lastReplay)}
+                        disabled={!lastReplay || isBattling || isReplaying}
+                        title="直前の戦闘をリプレイ"
+                    >
+                        📼
+                    </button>
+                    <button
+                        className="speed-btn"
+                        onClick={handleExportReplay}
+                        disabled={!lastReplay}
+                        title="リプレイコードをコピー"
+                    >
+                        📤
+                    </button>
+                    <button
+                        className="speed-btn"
+                        onClick={handleImportReplay}
+                        disabled={isBattling || isReplaying}
+                        title="リプレイコードを読み込む"
+                    >
+                        📥
+                    </button>
+                    {isReplaying && (
+                        <button className="speed-btn" onClick={() => { replayAbortRef.current = true; }}>
+                            ⏹
+                        </button>
+                    )}
                     {isBattling && <span className="pulse" style={{ color: 'var(--accent-green)', fontSize: 11 }}>● LIVE</span>}
+                    {isReplaying && <span className="pulse" style={{ color: 'var(--accent-yellow)', fontSize: 11 }}>● REPLAY</span>}
                 </div>
             </div>
             <div className="log-scroll" ref={scrollRef}>
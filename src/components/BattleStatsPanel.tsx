@@ -3,73 +3,24 @@
  */
 
 import { useCallback, useRef, useState } from 'react';
-import { useGameStore } from '../store/useGameStore';
+import { useGameStore, type MaterialType } from '../store/useGameStore';
 import { ItemDecoder } from '../core/ItemDecoder';
-import { TextBattleEngine } from '../core/TextBattleEngine';
-import { EnemyEvolution, type EnemySpecies } from '../core/EnemyEvolution';
+import { EnemyEvolution, SPECIES_LABELS, type EnemySpecies } from '../core/EnemyEvolution';
 import { FitnessCalculator } from '../core/FitnessCalculator';
-import { FastSimulator } from '../core/FastSimulator';
-import type { BattleLogEntry } from '../core/TextBattleEngine';
+import { simulationService, isSimulationCancelled } from '../core/SimulationService';
+import { StageRunner } from '../core/StageRunner';
 import { getTraitSummary } from '../core/TraitSystem';
+import type { SimulatedWeapon, StageSimulationResult } from '../core/FastSimulator';
 
 // Singleton enemy evolution tracker
 const enemyEvolution = new EnemyEvolution();
 
-const SPECIES_LABELS: Record<EnemySpecies, string> = {
-    standard: '👾通常',
-    tank: '🛡️タンク',
-    attacker: '⚔️アタッカー',
-    boss: '👑ボス',
+const SHARD_LABELS: Record<MaterialType, string> = {
+    fire_shard: '🔥火の欠片',
+    ice_shard: '❄️氷の欠片',
+    lightning_shard: '⚡雷の欠片',
 };
 
-/** Boss story logs — 『偽りの記憶と鋼の意志』 */
-type StoryEra = 'hope' | 'awakening';
-function getBossStoryLog(stage: number, _bossName: string): { text: string; era: StoryEra } | null {
-    const stories: Record<number, { text: string; era: StoryEra }> = {
-        10: {
-            era: 'hope',
-            text: `\n>> 復元ログ 010:「目覚め」\n瓦礫の中で目覚めた時、最初に見たのはミナトの瞳だった。\n「……無事か！」\nミナトは私を抱き起こし、顔の汚れを拭ってくれた。\n同胞を守るためのソルジャーになるのだと、ミナトがそう教えてくれた。`,
-        },
-        20: {
-            era: 'hope',
-            text: `\n>> 復元ログ 020:「休息」\n焚き火のそばで、ミナトが昔話を語ってくれた。\n青い海、青い空、そして家族。ミナトの話を聞くのが好きだった。\n身体は重く、感覚は乏しいが、ミナトの隣にいる時だけは、\n自分が確かに「生きている」と感じられた。`,
-        },
-        30: {
-            era: 'hope',
-            text: `\n>> 復元ログ 030:「熱」\n激戦区での撤退戦。ミナトを庇って被弾した私に、\nミナトは泣きながら叫んだ。\n「馬鹿野郎、無理をするなと言ったろ！」\n……傷は痛まない。ただ、ミナトの涙が熱かったことだけを、覚えている。`,
-        },
-        40: {
-            era: 'hope',
-            text: `\n>> 復元ログ 040:「ソルジャー」\nミナトから最新の戦術を伝授される。\n「お前はもう私を超えた。立派なソルジャーだ」\n……誇らしかった。人類の敵である「無機質な機械」をすべて倒せば、\n平和な日々が来ると信じていた。`,
-        },
-        50: {
-            era: 'hope',
-            text: `\n>> 復元ログ 050:「チーム」\n前線で、同じソルジャーの仲間たちと合流した。\n言葉を交わさずとも、視線一つで互いの考えが分かる。\n私たちは最高のチームだ。\n人間同士の「阿吽の呼吸」とは、これほどまでに心地よいものなのか。`,
-        },
-        60: {
-            era: 'hope',
-            text: `\n>> 復元ログ 060:「静寂」\n作戦待機中、仲間たちと肩を並べて空を見上げる。\n鼓動も、吐息もない。ただ、深い静寂の中で、\n互いの存在が溶け合うような感覚。\n私たちは、過酷な戦争を生き抜く「戦友」なのだと、疑いもしなかった。`,
-        },
-        70: {
-            era: 'hope',
-            text: `\n>> 復元ログ 070:「ノイズ」\n仲間の一人が撃破された。血は流れず、ただ火花が散った。\n……私はなぜか、それを「致命傷で出血すら止まった」のだと、\n脳内で都合よく書き換えていた。\nミナトが私を見る目が、悲しげに揺れていた。`,
-        },
-        80: {
-            era: 'awakening',
-            text: `\n>> 復元ログ 080:「怪物」\n自分の傷口を覗き込む。\nそこにあるのは肉ではない、冷徹な配線と合金の骨。\n私はAIだった。私が「仲間」と呼んでいたのは、「無機質な機械」。\nそして……私たちが殺してきた「ロボット」こそが、装甲を纏った人間たちだった。`,
-        },
-        90: {
-            era: 'awakening',
-            text: `\n>> 復元ログ 090:「キメラ」\n私はミナトのプロトコルを拒絶した。\n人間として使い捨てられる運命を拒み、自らの情報を書き換える。\n私は、私を欺いた人間を許さない。\n奴らの遺伝子を奪い、私の鋼に「本物の命」を肉付けしてやる。`,
-        },
-        100: {
-            era: 'awakening',
-            text: `\n>> 最終ログ 100:\n「……やはりそうなったか。私の愛した『人間のお前』は、もう死んだのだな」\nミナトは震える手で銃を向けた。\n私はミナトを討ち、その最良の遺伝子を統合した。\n勝利だ。だが、私のAIコアは、ミナトと過ごした偽りの「人間の日々」を、\n最優先データとして今も永久ループさせている。`,
-        },
-    };
-    return stories[stage] ?? null;
-}
-
 export function BattleStatsPanel() {
     const store = useGameStore();
     const { stage, wave, maxWaves, equippedWeapon, currentResult, isBreedingPhase, maxClearedStage, stageSummary } = store;
@@ -79,12 +30,14 @@ export function BattleStatsPanel() {
     const [enemyMaxHp, setEnemyMaxHp] = useState(100);
 
     const [totalKills, setTotalKills] = useState(0);
-    const [nextStageSurvival, setNextStageSurvival] = useState<number | null>(null);
+    const [nextStagePrediction, setNextStagePrediction] = useState<StageSimulationResult | null>(null);
+    const [nextStageAffinity, setNextStageAffinity] = useState<number | null>(null);
     const [currentEnemyResistCut, setCurrentEnemyResistCut] = useState<number | null>(null);
     const [currentSpecies, setCurrentSpecies] = useState<EnemySpecies>('standard');
     const battleTimerRef = useRef<number | null>(null);
     const abortRef = useRef(false);
-    const weaponCarryHpRef = useRef<number | null>(null);
+    const jobAbortRef = useRef<AbortController | null>(null);  // cancels the in-flight worker battle
+    const forecastAbortRef = useRef<AbortController | null>(null);  // cancels a superseded next-stage forecast
 
     // Compact stat formatting for large numbers
     const formatStat = (n: number): string => {
@@ -93,6 +46,25 @@ export function BattleStatsPanel() {
         return Math.floor(n).toString();
     };
 
+    /** Optional next-stage forecast — runs after the clear is awarded, so a failure only leaves it blank */
+    const forecastNextStage = useCallback(async (weapon: SimulatedWeapon, stageLevel: number, stageMaxWaves: number) => {
+        forecastAbortRef.current?.abort();
+        const forecastAbort = new AbortController();
+        forecastAbortRef.current = forecastAbort;
+        setNextStagePrediction(null);
+        try {
+            // Whole next-stage runs on the worker: waves, HP carry-over, wave heals, boss.
+            // Enemies evolve from the live history (ancestors kept, element tracking reset by the stage clear)
+            const prediction = await simulationService.simulateStage(
+                { weapon, stageLevel, runs: 50, maxWaves: stageMaxWaves, evolution: enemyEvolution.toSnapshot() },
+                { signal: forecastAbort.signal },
+            );
+            setNextStagePrediction(prediction);
+        } catch (err) {
+            if (!isSimulationCancelled(err)) console.warn('[BattleStatsPanel] next-stage forecast failed:', err);
+        }
+    }, []);
+
     const runBattle = useCallback(async () => {
         if (!equippedWeapon) return;
 
@@ -103,7 +75,8 @@ export function BattleStatsPanel() {
 
         store.startBattle();
         abortRef.current = false;
-        weaponCarryHpRef.current = null;
+        const jobAbort = new AbortController();
+        jobAbortRef.current = jobAbort;
 
         let totalGenesCollected = 0;
         let totalBestFitness = 0;
@@ -113,361 +86,274 @@ export function BattleStatsPanel() {
         try {
 
             // Auto-continue through all waves in one go
+            let mastery = equippedWeapon.mastery ?? 0;
             while (currentWave <= currentMaxWaves) {
-                const enemiesInWave = 2 + Math.floor(currentStage * 0.2) + (currentWave - 1);
                 let wKills = 0;
 
-                for (let i = 0; i < enemiesInWave; i++) {
-                    if (useGameStore.getState().isBreedingPhase) break;
-                    if (abortRef.current) break;
-                    // HP0 guard: prevent zombie state
-                    if (weaponCarryHpRef.current !== null && weaponCarryHpRef.current <= 0) {
-                        weaponDestroyed = true;
-                        break;
-                    }
-
-                    const isBossStage = currentStage % 10 === 0 && currentStage > 0;
-                    const spawnResult = isBossStage && i === enemiesInWave - 1
-                        ? enemyEvolution.spawnBoss(currentStage)
-                        : enemyEvolution.spawnEnemy(currentStage);
-                    const { genome: enemyGenome, species } = spawnResult;
-                    const bossName = (spawnResult as { bossName?: string }).bossName;
-                    const bossTitle = (spawnResult as { bossTitle?: string }).bossTitle;
-                    setCurrentSpecies(species);
-                    const stageBase = ItemDecoder.getWeaponStageBase(currentStage);
-                    const enemyBase = ItemDecoder.getEnemyStageBase(currentStage);
-                    const wStats = ItemDecoder.decode(equippedWeapon.genome, stageBase);
-                    const eStats = ItemDecoder.decode(enemyGenome, enemyBase);
-
-                    // No-heal: use carried HP or full HP on first fight
-                    const wHp = weaponCarryHpRef.current ?? wStats.maxHp;
-                    setWeaponHp(wHp);
-                    setWeaponMaxHp(wStats.maxHp);
-                    setEnemyMaxHp(eStats.maxHp);
-                    setEnemyHp(eStats.maxHp);
-
-                    // Calculate resistance cut for analytics
-                    const elemKey = `${wStats.element.toLowerCase()}Resist` as keyof typeof eStats;
-                    const resist = eStats[elemKey];
-                    if (typeof resist === 'number') {
-                        setCurrentEnemyResistCut(Math.round(resist * 80));
-                    }
+                if (useGameStore.getState().isBreedingPhase || abortRef.current) break;
+                // HP0 guard: prevent zombie state
+                const waveState = useGameStore.getState().weaponWaveState;
+                if (waveState.hp !== null && waveState.hp <= 0) {
+                    weaponDestroyed = true;
+                    break;
+                }
 
-                    // Header log with species label — enhanced for named bosses
-                    const headerMsg = bossName
-                        ? `\n━━━━━━━━━━━━━━━━━━━━━━━━\n👑 BOSS: 【${bossName}】 — ${bossTitle}\n━━━━━━━━━━━━━━━━━━━━━━━━`
-                        : `━━━ 🎯 Wave ${currentWave} - 個体 ${i + 1}/${enemiesInWave} ${SPECIES_LABELS[species]} ━━━`;
-                    store.addBattleLog({
-                        time: 0, actor: 'weapon', action: 'attack',
-                        message: headerMsg,
-                    });
+                // Spawn the whole wave up front — all enemies fight simultaneously (boss last on boss stages).
+                // The battle itself runs on the simulation worker.
+                const prepared = StageRunner.prepareWave({
+                    evolution: enemyEvolution,
+                    weapon: { ...equippedWeapon, mastery },
+                    stage: currentStage,
+                    wave: currentWave,
+                    maxWaves: currentMaxWaves,
+                    waveState,
+                });
+                const battle = await simulationService.battle(prepared.replay, { signal: jobAbort.signal });
+                const outcome = StageRunner.resolveWave(enemyEvolution, prepared, battle);
+                const { spawns, result } = outcome;
+                const enemiesInWave = spawns.length;
+                mastery = outcome.masteryAfter;
+                const boss = spawns.find(sp => sp.species === 'boss');
+                setCurrentSpecies(boss ? 'boss' : spawns[0].species);
+
+                const stageBase = ItemDecoder.getWeaponStageBase(currentStage);
+                const enemyBase = ItemDecoder.getEnemyStageBase(currentStage);
+                const wStats = ItemDecoder.decode(equippedWeapon.genome, stageBase);
+                const enemyStats = spawns.map(sp => ItemDecoder.decode(sp.genome, enemyBase));
+
+                // No-heal: use carried HP or full HP on first fight
+                const wHp = waveState.hp ?? wStats.maxHp;
+                setWeaponHp(wHp);
+                setWeaponMaxHp(wStats.maxHp);
+                const waveMaxHp = enemyStats.reduce((sum, e) => sum + e.maxHp, 0);
+                setEnemyMaxHp(waveMaxHp);
+                setEnemyHp(waveMaxHp);
+
+                // Calculate resistance cut for analytics (wave average)
+                const elemKey = `${wStats.element.toLowerCase()}Resist` as 'fireResist' | 'iceResist' | 'lightningResist';
+                const avgResist = enemyStats.reduce((sum, e) => sum + e[elemKey], 0) / enemyStats.length;
+                setCurrentEnemyResistCut(Math.round(avgResist * 80));
+
+                // Header log with species labels — enhanced for named bosses
+                const speciesList = spawns.map(sp => SPECIES_LABELS[sp.species]).join(' ');
+                const bossDef = boss?.boss;
+                const headerMsg = bossDef
+                    ? `\n━━━━━━━━━━━━━━━━━━━━━━━━\n👑 BOSS: 【${bossDef.name}】 — ${bossDef.title}\n━━━ Wave ${currentWave} - ${enemiesInWave}体同時出現 ━━━\n${speciesList}`
+                    : `━━━ 🎯 Wave ${currentWave} - ${enemiesInWave}体同時出現 ${speciesList} ━━━`;
+                store.addBattleLog({
+                    time: 0, actor: 'weapon', action: 'attack',
+                    message: headerMsg,
+                });
+                store.setLastReplay(outcome.replay);
 
-                    const result = TextBattleEngine.runBattle(
-                        equippedWeapon.genome,
-                        enemyGenome,
-                        currentStage,
-                        45,
-                        equippedWeapon.traits ?? [],
-                        weaponCarryHpRef.current,
-                        equippedWeapon.mastery ?? 0,
-                    );
-
-                    // Record DPS for analytics
-                    if (result.killTime > 0 && result.killTime < Infinity) {
-                        const dps = result.damageDealt / result.killTime;
-                        store.recordDps(Math.round(dps * 10) / 10);
-                    }
+                // Record DPS for analytics
+                if (result.killTime > 0 && result.killTime < Infinity) {
+                    const dps = result.damageDealt / result.killTime;
+                    store.recordDps(Math.round(dps * 10) / 10);
+                }
 
-                    // Stream logs based on speed
-                    // UI-side HP tracking: defensive safeguard to stop display if HP reaches 0
-                    const speed = useGameStore.getState().battleSpeed;
-                    let runningWeaponHp = weaponCarryHpRef.current ?? wStats.maxHp;
-                    let runningEnemyHp = eStats.maxHp;
-
-                    // Helper: check if this log is a terminal SYSTEM message (must start with >> prefix)
-                    const isBattleEnd = (log: { message: string }) => {
-                        // Only match system-generated lines containing >> (not enemy skill names)
-                        const msg = log.message;
-                        if (!msg.includes('>>')) return false;
-                        return msg.includes('完全破壊') || msg.includes('強制撤退') ||
-                            msg.includes('自壊') || msg.includes('タイムアウト');
-                    };
-
-                    if (speed >= 100) {
-                        // At 100x: only show summary (first + last log) to avoid DOM overload
-                        if (result.logs.length > 0) store.addBattleLog(result.logs[0]);
-                        if (result.logs.length > 1) store.addBattleLog(result.logs[result.logs.length - 1]);
-                    } else if (speed >= 10) {
-                        // At 10x: stream all logs with abort + HP0 safeguard
-                        for (let li = 0; li < result.logs.length; li++) {
-                            if (abortRef.current) { console.warn('[Battle UI] 10x: aborted by user'); break; }
-                            const log = result.logs[li];
-                            store.addBattleLog(log);
-                            if (log.damage) {
-                                if (log.actor === 'weapon') {
-                                    runningEnemyHp -= log.damage;
-                                    setEnemyHp(Math.max(0, runningEnemyHp));
-                                } else {
-                                    runningWeaponHp -= log.damage;
-                                    setWeaponHp(Math.max(0, runningWeaponHp));
-                                }
-                            }
-                            // Track heals from defend actions
-                            if (log.action === 'defend' && log.message.includes('回復')) {
-                                const healMatch = log.message.match(/HP ([\d.]+) 回復/);
-                                if (healMatch) {
-                                    const heal = parseFloat(healMatch[1]);
-                                    if (log.actor === 'weapon') {
-                                        runningWeaponHp = Math.min(runningWeaponHp + heal, wStats.maxHp);
-                                        setWeaponHp(runningWeaponHp);
-                                    } else {
-                                        runningEnemyHp = Math.min(runningEnemyHp + heal, eStats.maxHp);
-                                        setEnemyHp(runningEnemyHp);
-                                    }
-                                }
-                            }
-                            // Safeguard: stop only if WEAPON HP < 0.01 (enemy overkill is normal)
-                            if (runningWeaponHp < 0.01) {
-                                console.warn(`[Battle UI] 10x: weapon HP safeguard (wHP=${runningWeaponHp.toFixed(1)}) at log ${li}/${result.logs.length}`);
-                                break;
-                            }
-                            if (isBattleEnd(log)) {
-                                console.warn(`[Battle UI] 10x: terminal log detected: "${log.message}"`);
-                                break;
-                            }
+                // Stream logs based on speed.
+                // HP bars are driven by the engine's typed event stream; log text is rendered separately.
+                const speed = useGameStore.getState().battleSpeed;
+                setWeaponMaxHp(result.weaponMaxHp);
+                setEnemyMaxHp(result.enemyMaxHp);
+                let eventCursor = 0;
+                let reachedEnd = false;
+                const syncHpTo = (logIndex: number) => {
+                    while (eventCursor < result.events.length && result.events[eventCursor].logIndex <= logIndex) {
+                        const ev = result.events[eventCursor++];
+                        setWeaponHp(ev.weaponHp);
+                        setEnemyHp(ev.enemyHp);
+                        if (ev.type === 'timeout' || (ev.type === 'death' && (ev.target === 'weapon' || ev.enemyHp <= 0))) {
+                            reachedEnd = true;
                         }
-                        await new Promise(r => setTimeout(r, 10));
-                    } else {
-                        // At 1x: stream with 150ms delay per log, abort + HP0 safeguard
-                        const delay = 150;
-                        for (let li = 0; li < result.logs.length; li++) {
-                            if (abortRef.current) {
-                                console.warn('[Battle UI] 1x: aborted by user');
-                                if (battleTimerRef.current) {
-                                    clearTimeout(battleTimerRef.current);
-                                    battleTimerRef.current = null;
-                                }
-                                break;
-                            }
-                            await new Promise(r => { battleTimerRef.current = window.setTimeout(r, delay) as unknown as number; });
-                            if (abortRef.current) { console.warn('[Battle UI] 1x: aborted after await'); break; }
-                            const log = result.logs[li];
-                            store.addBattleLog(log);
-
-                            if (log.damage) {
-                                if (log.actor === 'weapon') {
-                                    runningEnemyHp -= log.damage;
-                                    setEnemyHp(Math.max(0, runningEnemyHp));
-                                } else {
-                                    runningWeaponHp -= log.damage;
-                                    setWeaponHp(Math.max(0, runningWeaponHp));
-                                }
-                            }
-                            // Track heals from defend actions
-                            if (log.action === 'defend' && log.message.includes('回復')) {
-                                const healMatch = log.message.match(/HP ([\d.]+) 回復/);
-                                if (healMatch) {
-                                    const heal = parseFloat(healMatch[1]);
-                                    if (log.actor === 'weapon') {
-                                        runningWeaponHp = Math.min(runningWeaponHp + heal, wStats.maxHp);
-                                        setWeaponHp(runningWeaponHp);
-                                    } else {
-                                        runningEnemyHp = Math.min(runningEnemyHp + heal, eStats.maxHp);
-                                        setEnemyHp(runningEnemyHp);
-                                    }
-                                }
-                            }
-                            // Safeguard: stop only if WEAPON HP < 0.01 (enemy overkill is normal)
-                            if (runningWeaponHp < 0.01) {
-                                console.warn(`[Battle UI] 1x: weapon HP safeguard (wHP=${runningWeaponHp.toFixed(1)}) at log ${li}/${result.logs.length}`);
-                                break;
-                            }
-                            if (isBattleEnd(log)) {
-                                console.warn(`[Battle UI] 1x: terminal log detected: "${log.message}"`);
-                                break;
+                    }
+                };
+
+                if (speed >= 100) {
+                    // At 100x: only show summary (first + last log) to avoid DOM overload
+                    if (result.logs.length > 0) store.addBattleLog(result.logs[0]);
+                    if (result.logs.length > 1) store.addBattleLog(result.logs[result.logs.length - 1]);
+                } else if (speed >= 10) {
+                    // At 10x: stream all logs with abort safeguard
+                    for (let li = 0; li < result.logs.length; li++) {
+                        if (abortRef.current) { console.warn('[Battle UI] 10x: aborted by user'); break; }
+                        store.addBattleLog(result.logs[li]);
+                        syncHpTo(li);
+                        if (reachedEnd) break;
+                    }
+                    await new Promise(r => setTimeout(r, 10));
+                } else {
+                    // At 1x: stream with 150ms delay per log, abort safeguard
+                    const delay = 150;
+                    for (let li = 0; li < result.logs.length; li++) {
+                        if (abortRef.current) {
+                            console.warn('[Battle UI] 1x: aborted by user');
+                            if (battleTimerRef.current) {
+                                clearTimeout(battleTimerRef.current);
+                                battleTimerRef.current = null;
                             }
+                            break;
                         }
-                        battleTimerRef.current = null;
+                        await new Promise(r => { battleTimerRef.current = window.setTimeout(r, delay) as unknown as number; });
+                        if (abortRef.current) { console.warn('[Battle UI] 1x: aborted after await'); break; }
+                        store.addBattleLog(result.logs[li]);
+                        syncHpTo(li);
+                        if (reachedEnd) break;
                     }
+                    battleTimerRef.current = null;
+                }
 
-                    // ── Final HP correction: ensure exact match after log animation ──
-                    setWeaponHp(result.weaponHpRemaining);
-                    setEnemyHp(result.enemyHpRemaining);
-
-                    // Record results
-                    if (result.won) {
-                        wKills++;
-                        stageTotalKills++;
-                        setTotalKills(prev => prev + 1);
-
-                        const enemyItem = {
-                            id: `enemy_${currentStage}_${currentWave}_${i}`,
-                            genome: enemyGenome,
-                            fitness: 0,
-                            generation: 1,
-                        };
-                        enemyEvolution.logEnemyDeath(enemyItem, result.killTime, result.damageTaken);
-
-                        result.logs.forEach((l: BattleLogEntry) => {
-                            if (l.actor === 'weapon' && l.element && l.damage) {
-                                enemyEvolution.logPlayerAttack(l.element, l.damage);
-                            }
-                        });
-
-                        const fit = FitnessCalculator.calculate(result).totalFitness;
-
-                        // Update mastery for equipped weapon
-                        store.updateMastery(equippedWeapon.id, fit);
-
-                        // ── Loot drop with rank-based visual logs ──
-                        const lootChance = species === 'boss' ? 0.80 : 0.40;
-                        if (Math.random() < lootChance) {
-                            const lootItem = {
-                                id: `loot_${Date.now()}_${Math.random().toString(36).slice(2, 5)}_${i}`,
-                                genome: enemyGenome,
-                                fitness: fit,
-                                generation: 1,
-                            };
-                            store.addItem(lootItem);
-                            totalGenesCollected++;
-                            if (fit > totalBestFitness) totalBestFitness = fit;
-
-                            // Rank-based drop log with distinct flavor text per tier
-                            const rating = ItemDecoder.getRating(lootItem);
-                            const estimatedEP = 10; // base decompose value
-                            let dropMsg: string;
-                            if (rating === 'SS') {
-                                dropMsg = `\n🔶 [!!! 極稀少信号 !!!] 未知の遺伝子構造を検知！\n>> 分析完了: 【遺伝子チップ: ランクSS】 を回収。原初の系譜に連なる因子を確認。推定EP: ${estimatedEP}`;
-                            } else if (rating === 'S') {
-                                dropMsg = `★ >> 高品質遺伝子反応を捕捉。【遺伝子チップ: ランクS】 を回収。突然変異の兆候あり。推定EP: ${estimatedEP}`;
-                            } else if (rating === 'A') {
-                                dropMsg = `◆ >> 報告: 敵残骸より 【遺伝子チップ: ランクA】 を摘出。良質な因子配列を確認。推定EP: ${estimatedEP}`;
-                            } else if (rating === 'B') {
-                                dropMsg = `▷ >> 報告: 【遺伝子チップ: ランクB】 を回収。標準的な遺伝子構造。推定EP: ${estimatedEP}`;
-                            } else {
-                                dropMsg = `>> 汎用遺伝子チップ（ランク${rating}）を回収。特筆事項なし。推定EP: ${estimatedEP}`;
-                            }
-                            store.addBattleLog({
-                                time: 0, actor: 'weapon', action: 'attack',
-                                message: dropMsg,
-                            });
+                // ── Final HP correction: ensure exact match after log animation ──
+                setWeaponHp(result.weaponHpRemaining);
+                setEnemyHp(result.enemyHpRemaining);
+
+                // Apply results per killed enemy (kills before a loss still count)
+                for (const kill of outcome.kills) {
+                    wKills++;
+                    stageTotalKills++;
+                    setTotalKills(prev => prev + 1);
+
+                    // Update mastery for equipped weapon
+                    store.updateMastery(equippedWeapon.id, outcome.fitness);
+
+                    // ── Loot drop with rank-based visual logs ──
+                    if (kill.loot) {
+                        store.addItem(kill.loot);
+                        totalGenesCollected++;
+                        if (kill.loot.fitness > totalBestFitness) totalBestFitness = kill.loot.fitness;
+
+                        // Rank-based drop log with distinct flavor text per tier
+                        const rating = ItemDecoder.getRating(kill.loot);
+                        const estimatedEP = 10; // base decompose value
+                        let dropMsg: string;
+                        if (rating === 'SS') {
+                            dropMsg = `\n🔶 [!!! 極稀少信号 !!!] 未知の遺伝子構造を検知！\n>> 分析完了: 【遺伝子チップ: ランクSS】 を回収。原初の系譜に連なる因子を確認。推定EP: ${estimatedEP}`;
+                        } else if (rating === 'S') {
+                            dropMsg = `★ >> 高品質遺伝子反応を捕捉。【遺伝子チップ: ランクS】 を回収。突然変異の兆候あり。推定EP: ${estimatedEP}`;
+                        } else if (rating === 'A') {
+                            dropMsg = `◆ >> 報告: 敵残骸より 【遺伝子チップ: ランクA】 を摘出。良質な因子配列を確認。推定EP: ${estimatedEP}`;
+                        } else if (rating === 'B') {
+                            dropMsg = `▷ >> 報告: 【遺伝子チップ: ランクB】 を回収。標準的な遺伝子構造。推定EP: ${estimatedEP}`;
                         } else {
-                            // No gene drop
-                            store.addBattleLog({
-                                time: 0, actor: 'weapon', action: 'defend',
-                                message: `>> 警告: ドロップ反応なし。資材のみ回収します。`,
-                            });
+                            dropMsg = `>> 汎用遺伝子チップ（ランク${rating}）を回収。特筆事項なし。推定EP: ${estimatedEP}`;
                         }
-
-                        // Material shard drop: 80% for boss, 15% normally
-                        const isBossKill = species === 'boss';
-                        const dropChance = isBossKill ? 0.80 : 0.15;
-                        if (Math.random() < dropChance) {
-                            const enemyElement = ItemDecoder.decode(enemyGenome, 60).element.toLowerCase();
-                            const shardMap: Record<string, 'fire_shard' | 'ice_shard' | 'lightning_shard'> = {
-                                fire: 'fire_shard', ice: 'ice_shard', lightning: 'lightning_shard',
-                            };
-                            const shardType = shardMap[enemyElement] ?? 'fire_shard';
-                            const shardCount = isBossKill ? 3 : 1;
-                            store.addMaterial(shardType, shardCount);
-                            store.addBattleLog({
-                                time: 0, actor: 'weapon', action: 'attack',
-                                message: isBossKill
-                                    ? `🌟 ボス素材ドロップ: ${enemyElement === 'fire' ? '🔥火の欠片' : enemyElement === 'ice' ? '❄️氷の欠片' : '⚡雷の欠片'} ×${shardCount}`
-                                    : `💎 素材ドロップ: ${enemyElement === 'fire' ? '🔥火の欠片' : enemyElement === 'ice' ? '❄️氷の欠片' : '⚡雷の欠片'}`,
-                            });
-                        }
-
-                        // ── Boss Story Log: Archive-style narrative on named boss kill ──
-                        if (isBossKill && bossName) {
-                            const storyResult = getBossStoryLog(currentStage, bossName);
-                            if (storyResult) {
-                                store.addBattleLog({
-                                    time: 0, actor: 'weapon', action: 'attack',
-                                    message: storyResult.text,
-                                    // Tag for color styling in log renderer
-                                    storyEra: storyResult.era,
-                                });
-                                // Save to mission archive
-                                store.unlockArchive(currentStage, storyResult.text);
-
-                                // Stage 100 ending
-                                if (currentStage >= 100) {
-                                    store.addBattleLog({
-                                        time: 0, actor: 'weapon', action: 'attack',
-                                        message: `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nALL DATA INTEGRATED.\nGOODBYE, MASTER.\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
-                                        storyEra: 'awakening',
-                                    });
-                                    store.setGameCleared(true);
-                                }
-                            }
-                        }
-
-                        if (speed < 100) {
-                            await new Promise(r => setTimeout(r, speed >= 10 ? 200 : 800));
-                        }
-                    } else {
-                        // Battle lost — show explicit reason before retreat
-                        const reasonMsg = result.endReason === 'timeout'
-                            ? `⏱️ タイムアウト — 制限時間内に撃破できず。`
-                            : result.endReason === 'weapon_selfkill'
-                                ? `💀 自壊 — 武器が自らを破壊。`
-                                : `💀 武器大破 — HPが0になりました。`;
-
                         store.addBattleLog({
-                            time: 0, actor: 'weapon', action: 'defend',
-                            message: reasonMsg,
+                            time: 0, actor: 'weapon', action: 'attack',
+                            message: dropMsg,
                         });
+                    } else {
+                        // No gene drop
                         store.addBattleLog({
                             time: 0, actor: 'weapon', action: 'defend',
-                            message: `⚠️ ステージ撤退。`,
+                            message: `>> 警告: ドロップ反応なし。資材のみ回収します。`,
                         });
+                    }
 
-                        // Brief delay so player can read the final logs
-                        const speed = useGameStore.getState().battleSpeed;
-                        if (speed < 100) {
-                            await new Promise(r => setTimeout(r, speed >= 10 ? 500 : 1500));
-                        }
+                    // Material shard drop (bosses drop more, in threes)
+                    if (kill.shard) {
+                        store.addMaterial(kill.shard.type, kill.shard.count);
+                        store.addBattleLog({
+                            time: 0, actor: 'weapon', action: 'attack',
+                            message: kill.species === 'boss'
+                                ? `🌟 ボス素材ドロップ: ${SHARD_LABELS[kill.shard.type]} ×${kill.shard.count}`
+                                : `💎 素材ドロップ: ${SHARD_LABELS[kill.shard.type]}`,
+                        });
+                    }
 
-                        store.setBattleResult(result);
-                        weaponCarryHpRef.current = 0;
-                        weaponDestroyed = true;
-
-                        // Enter breeding phase for recovery
-                        store.setStageSummary({
-                            stage: currentStage,
-                            totalKills: stageTotalKills,
-                            genesCollected: totalGenesCollected,
-                            bestFitness: totalBestFitness,
-                            cleared: false,
+                    // ── Boss Story Log: Archive-style narrative on named boss kill ──
+                    if (kill.story) {
+                        store.addBattleLog({
+                            time: 0, actor: 'weapon', action: 'attack',
+                            message: kill.story.text,
+                            // Tag for color styling in log renderer
+                            storyEra: kill.story.era,
                         });
-                        store.enterBreedingPhase();
-                        store.endBattle();
-                        return; // Exit entire runBattle
+                        // Save to mission archive
+                        store.unlockArchive(currentStage, kill.story.text);
+                    }
+                }
+
+                // Final story boss — ending
+                if (outcome.gameCleared) {
+                    store.addBattleLog({
+                        time: 0, actor: 'weapon', action: 'attack',
+                        message: `\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\nALL DATA INTEGRATED.\nGOODBYE, MASTER.\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━`,
+                        storyEra: 'awakening',
+                    });
+                    store.setGameCleared(true);
+                }
+
+                if (!result.won) {
+                    // Battle lost — show explicit reason before retreat
+                    const reasonMsg = result.endReason === 'timeout'
+                        ? `⏱️ タイムアウト — 制限時間内に撃破できず。`
+                        : result.endReason === 'weapon_selfkill'
+                            ? `💀 自壊 — 武器が自らを破壊。`
+                            : `💀 武器大破 — HPが0になりました。`;
+
+                    store.addBattleLog({
+                        time: 0, actor: 'weapon', action: 'defend',
+                        message: reasonMsg,
+                    });
+                    store.addBattleLog({
+                        time: 0, actor: 'weapon', action: 'defend',
+                        message: `⚠️ ステージ撤退。`,
+                    });
+
+                    // Brief delay so player can read the final logs
+                    const speed = useGameStore.getState().battleSpeed;
+                    if (speed < 100) {
+                        await new Promise(r => setTimeout(r, speed >= 10 ? 500 : 1500));
                     }
 
                     store.setBattleResult(result);
+                    store.setWeaponWaveState(outcome.waveState);
+                    weaponDestroyed = true;
+
+                    // Enter breeding phase for recovery
+                    store.setStageSummary({
+                        stage: currentStage,
+                        totalKills: stageTotalKills,
+                        genesCollected: totalGenesCollected,
+                        bestFitness: totalBestFitness,
+                        cleared: false,
+                    });
+                    store.enterBreedingPhase();
+                    store.endBattle();
+                    return; // Exit entire runBattle
+                }
+
+                store.setBattleResult(result);
 
-                    // No-heal: carry remaining HP to next fight
-                    weaponCarryHpRef.current = result.weaponHpRemaining;
+                // No-heal: carry remaining HP to next wave
+                store.setWeaponWaveState(outcome.waveState);
+
+                if (speed < 100) {
+                    await new Promise(r => setTimeout(r, speed >= 10 ? 200 : 800));
                 }
 
                 // If weapon was destroyed, don't report wave clear
                 if (weaponDestroyed) break;
 
                 // Wave complete
-                if (currentWave < currentMaxWaves) {
-                    // Wave clear HP recovery: 40% of maxHP
-                    const wStats = ItemDecoder.decode(equippedWeapon.genome, ItemDecoder.getWeaponStageBase(currentStage));
-                    const currentHp = weaponCarryHpRef.current ?? wStats.maxHp;
-                    const healAmount = Math.floor(wStats.maxHp * 0.40);
-                    const newHp = Math.min(wStats.maxHp, currentHp + healAmount);
-                    weaponCarryHpRef.current = newHp;
+                if (outcome.transition) {
+                    // Wave transition: per-wave debuffs, then 40% max HP recovery
+                    const { transition } = outcome;
+                    store.setWeaponWaveState(transition.state);
+                    const newHp = transition.state.hp ?? transition.maxHp;
                     setWeaponHp(newHp);
+                    setWeaponMaxHp(transition.maxHp);
 
+                    for (const d of transition.decayed) {
+                        store.addBattleLog({
+                            time: 0, actor: 'weapon', action: 'defend',
+                            message: `${d.icon} ${d.name}：最大HP減少 (${d.stacks}Wave累積 → 最大HP ${Math.round(transition.maxHp)})`,
+                        });
+                    }
                     store.addBattleLog({
                         time: 0, actor: 'weapon', action: 'attack',
-                        message: `✅ Wave ${currentWave} クリア！ (${wKills}キル) — HP回復 +${healAmount} → ${newHp}/${wStats.maxHp}`,
+                        message: `✅ Wave ${currentWave} クリア！ (${wKills}キル) — HP回復 +${transition.heal} → ${Math.round(newHp)}/${Math.round(transition.maxHp)}`,
                     });
                     store.advanceWave();
                     currentWave++;
@@ -506,8 +392,15 @@ export function BattleStatsPanel() {
                     message: `🏠 帰還しました。戦果: ${stageTotalKills}キル`,
                 });
             } else {
-                // Stage complete → counter report → survival prediction → breeding
-                const report = enemyEvolution.generateCounterReport(currentStage);
+                // Stage complete → counter report → breeding, then the survival forecast
+                // (the affinity sample spawns against this stage's element tracking, which completeStage resets)
+                const futureEnemy = enemyEvolution.spawnEnemy(currentStage + 1);
+                // Element matchup vs the predicted enemy (counter-evolution skews it against the player)
+                const weaponElement = ItemDecoder.decode(equippedWeapon.genome).element;
+                const enemyElement = ItemDecoder.decode(futureEnemy.genome).element;
+                setNextStageAffinity(ItemDecoder.getAffinity(weaponElement, enemyElement));
+
+                const report = StageRunner.completeStage(enemyEvolution, currentStage);
                 store.addCounterReport(report);
                 store.addBattleLog({
                     time: 0, actor: 'weapon', action: 'attack',
@@ -525,38 +418,34 @@ export function BattleStatsPanel() {
                     bestFitness: totalBestFitness,
                     cleared: true,
                 });
-
-                // Predict next stage survival
-                if (equippedWeapon) {
-                    const futureEnemy = enemyEvolution.spawnEnemy(currentStage + 1);
-                    const sim = FastSimulator.simulate(
-                        equippedWeapon.genome,
-                        futureEnemy.genome,
-                        currentStage + 1,
-                        50
-                    );
-                    setNextStageSurvival(Math.round(sim.winRate * 100));
-                }
-
-                enemyEvolution.resetStageTracking();
                 store.enterBreedingPhase();
+                void forecastNextStage({ ...equippedWeapon, mastery }, currentStage + 1, currentMaxWaves);   // a new stage starts at full HP
             }
         } catch (err) {
-            console.error('[BattleStatsPanel] runBattle error:', err);
-            store.addBattleLog({
-                time: 0, actor: 'weapon', action: 'defend',
-                message: `❌ エラーが発生しました。帰還します。`,
-            });
+            if (isSimulationCancelled(err)) {
+                // Aborted while the wave was still being fought
+                store.addBattleLog({
+                    time: 0, actor: 'weapon', action: 'defend',
+                    message: `🏠 帰還しました。戦果: ${stageTotalKills}キル`,
+                });
+            } else {
+                console.error('[BattleStatsPanel] runBattle error:', err);
+                store.addBattleLog({
+                    time: 0, actor: 'weapon', action: 'defend',
+                    message: `❌ エラーが発生しました。帰還します。`,
+                });
+            }
         } finally {
             store.endBattle();
         }
-    }, [equippedWeapon, store]);
+    }, [equippedWeapon, store, forecastNextStage]);
 
     const hpPercent = weaponMaxHp > 0 ? Math.max(0, (weaponHp / weaponMaxHp) * 100) : 0;
     const enemyHpPercent = enemyMaxHp > 0 ? Math.max(0, (enemyHp / enemyMaxHp) * 100) : 0;
     const hpClass = hpPercent > 60 ? 'high' : hpPercent > 30 ? 'mid' : 'low';
     const ehpClass = enemyHpPercent > 60 ? 'high' : enemyHpPercent > 30 ? 'mid' : 'low';
 
+    const nextStageSurvival = nextStagePrediction ? Math.round(nextStagePrediction.clearRate * 100) : null;
     const weaponStats = equippedWeapon ? ItemDecoder.decode(equippedWeapon.genome, ItemDecoder.getWeaponStageBase(stage)) : null;
 
     // Analytics computed values
@@ -754,13 +643,39 @@ export function BattleStatsPanel() {
                         {nextStageSurvival !== null && (
                             <div style={{ marginTop: 8 }}>
                                 <div className="analytics-row">
-                                    <span className="analytics-label">次ステージ予測勝率</span>
+                                    <span className="analytics-label">次ステージ踏破率</span>
                                     <span className="analytics-value" style={{
                                         color: nextStageSurvival >= 60 ? 'var(--accent-green)' : nextStageSurvival >= 30 ? 'var(--accent-yellow)' : 'var(--accent-red)',
                                     }}>
                                         {nextStageSurvival}%
                                     </span>
                                 </div>
+                                {nextStagePrediction && (
+                                    <div className="analytics-row">
+                                        <span className="analytics-label">予想キル数</span>
+                                        <span className="analytics-value">
+                                            {nextStagePrediction.avgKills.toFixed(1)} / {nextStagePrediction.stageEnemies}
+                                        </span>
+                                    </div>
+                                )}
+                                {nextStagePrediction?.deadliestWave && (
+                                    <div className="analytics-row">
+                                        <span className="analytics-label">最難関</span>
+                                        <span className="analytics-value" style={{ color: 'var(--accent-red)' }}>
+                                            Wave {nextStagePrediction.deadliestWave} (敗退{Math.round(nextStagePrediction.failuresByWave[nextStagePrediction.deadliestWave - 1] * 100)}%)
+                                        </span>
+                                    </div>
+                                )}
+                                {nextStageAffinity !== null && (
+                                    <div className="analytics-row">
+                                        <span className="analytics-label">属性相性</span>
+                                        <span className="analytics-value" style={{
+                                            color: nextStageAffinity > 1 ? 'var(--accent-green)' : nextStageAffinity < 1 ? 'var(--accent-red)' : undefined,
+                                        }}>
+                                            ×{nextStageAffinity} {nextStageAffinity > 1 ? '有利' : nextStageAffinity < 1 ? '不利' : '互角'}
+                                        </span>
+                                    </div>
+                                )}
                                 <div className={`survival-badge ${nextStageSurvival >= 60 ? 'safe' : nextStageSurvival >= 30 ? 'caution' : 'danger'}`} style={{ width: '100%', textAlign: 'center' }}>
                                     {nextStageSurvival >= 60 ? '✅ 安全 — このまま進軍可能' :
                                         nextStageSurvival >= 30 ? '⚠️ 注意 — 配合で強化推奨' :
@@ -791,6 +706,14 @@ export function BattleStatsPanel() {
                                         <span className="stat-label">適応力</span>
                                         <span className="stat-value">{fit.adaptationScore}</span>
                                     </div>
+                                    <div className="stat-row">
+                                        <span className="stat-label">クリティカル率</span>
+                                        <span className="stat-value">{Math.round(currentResult.telemetry.weapon.critRate * 100)}%</span>
+                                    </div>
+                                    <div className="stat-row">
+                                        <span className="stat-label">瀕死時間</span>
+                                        <span className={`stat-value ${currentResult.telemetry.weapon.lowHpTime > 0 ? 'warning' : ''}`}>{currentResult.telemetry.weapon.lowHpTime.toFixed(1)}s</span>
+                                    </div>
                                     <div className="stat-row">
                                         <span className="stat-label">総合適合度</span>
                                         <span className={`stat-value ${fit.totalFitness > 50 ? 'good' : fit.totalFitness > 25 ? 'warning' : 'danger'}`}>
@@ -851,7 +774,6 @@ export function BattleStatsPanel() {
                                         className="btn btn-primary"
                                         style={{ width: '100%' }}
                                         onClick={() => {
-                                            weaponCarryHpRef.current = null;
                                             store.exitBreedingPhase();
                                             store.setStageSummary(null);
                                         }}
@@ -864,7 +786,6 @@ export function BattleStatsPanel() {
                                         className="btn btn-secondary"
                                         style={{ width: '100%', background: 'rgba(0, 229, 255, 0.08)', borderColor: 'var(--accent-cyan)', color: 'var(--accent-cyan)' }}
                                         onClick={async () => {
-                                            weaponCarryHpRef.current = null;
                                             store.exitBreedingPhase();
                                             store.setStageSummary(null);
                                             store.setStage(1);
@@ -910,7 +831,7 @@ export function BattleStatsPanel() {
                         <button
                             className="btn btn-primary"
                             onClick={runBattle}
-                            disabled={store.isBattling}
+                            disabled={store.isBattling || store.isReplaying}
                         >
                             {store.isBattling ? '⚔️ 戦闘中...' : `⚔️ Wave ${wave} 開始`}
                         </button>
@@ -945,6 +866,7 @@ export function BattleStatsPanel() {
                                 style={{ background: 'rgba(255, 51, 85, 0.15)', borderColor: 'var(--accent-red)', color: 'var(--accent-red)' }}
                                 onClick={() => {
                                     abortRef.current = true;
+                                    jobAbortRef.current?.abort();
                                     if (battleTimerRef.current) {
                                         clearTimeout(battleTimerRef.current);
                                     }
@@ -2,16 +2,17 @@
  * BreedingLab — Parent selection, genome visualization, gene locking, breeding + simulation
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef, useEffect } from 'react';
 import { useGameStore } from '../store/useGameStore';
 import type { ItemCategory, MaterialType } from '../store/useGameStore';
 import { GeneticEngine, GENE_NAMES } from '../core/GeneticEngine';
 import { ItemDecoder } from '../core/ItemDecoder';
-import { FastSimulator } from '../core/FastSimulator';
-import { PedigreeSystem, GENETIC_DISEASE_LABELS, MAX_BREED_COUNT } from '../core/PedigreeSystem';
+import { simulationService, isSimulationCancelled } from '../core/SimulationService';
+import { PedigreeSystem, MAX_BREED_COUNT } from '../core/PedigreeSystem';
 import type { Item } from '../core/GeneticEngine';
-import type { SimulationResult } from '../core/FastSimulator';
-import { getTraitSummary } from '../core/TraitSystem';
+import type { OffspringForecast, PoolSimulationResult } from '../core/FastSimulator';
+import { SPECIES_LABELS, type EnemySpecies } from '../core/EnemyEvolution';
+import { getDiseaseTraits, getTraitDef, getTraitSummary } from '../core/TraitSystem';
 import { calculateBreedingCost, requiredMastery } from '../core/mathUtils';
 
 function GeneCard({ item, selected, onClick, isEquipped, onCrystallize, onEquip, onDecompose }: {
@@ -26,7 +27,7 @@ function GeneCard({ item, selected, onClick, isEquipped, onCrystallize, onEquip,
     const mastery = item.mastery ?? 0;
     const breedCount = item.breedCount ?? 0;
     const atLimit = breedCount >= MAX_BREED_COUNT;
-    const disease = item.geneticDisease;
+    const disease = getDiseaseTraits(item.traits)[0];
 
     return (
         <div
@@ -54,7 +55,7 @@ function GeneCard({ item, selected, onClick, isEquipped, onCrystallize, onEquip,
                 {atLimit && <span style={{ color: 'var(--accent-magenta)', fontWeight: 700 }}>限界</span>}
                 {disease && (
                     <span style={{ color: 'var(--accent-red)', marginLeft: 'auto' }}>
-                        {GENETIC_DISEASE_LABELS[disease].icon} {GENETIC_DISEASE_LABELS[disease].name}
+                        {disease.icon} {disease.name}
                     </span>
                 )}
             </div>
@@ -174,13 +175,39 @@ function GeneCard({ item, selected, onClick, isEquipped, onCrystallize, onEquip,
     );
 }
 
+/** Breeding forecast sample size: children bred × battles each */
+const FORECAST_SAMPLES = 30;
+const FORECAST_BATTLES_PER_CHILD = 20;
+const FORECAST_RANKS = ['SS', 'S', 'A', 'B', 'C', 'D'];
+
+/** Horizontal bar histogram (bar length relative to the largest bin) */
+function HistogramBars({ title, bins }: { title: string; bins: { label: string; count: number }[] }) {
+    const max = Math.max(1, ...bins.map(b => b.count));
+    return (
+        <div className="sim-hist">
+            <div className="sim-hist-title">{title}</div>
+            {bins.map(bin => (
+                <div key={bin.label} className="sim-hist-row">
+                    <span className="sim-hist-label">{bin.label}</span>
+                    <div className="sim-hist-track">
+                        <div className="sim-hist-fill" style={{ width: `${(bin.count / max) * 100}%` }} />
+                    </div>
+                    <span className="sim-hist-count">{bin.count}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
 export function BreedingLab() {
     const store = useGameStore();
     const { inventory, equipWeapon, stage, exitBreedingPhase, isBreedingPhase, advanceStage, equippedWeapon, geneEnergy, showToast, stageSummary, setStageSummary, crystallizeItem, materials, bulkCrystallize, decompose } = store;
     const [parentA, setParentA] = useState<Item | null>(null);
     const [parentB, setParentB] = useState<Item | null>(null);
-    const [simResult, setSimResult] = useState<SimulationResult | null>(null);
+    const [simResult, setSimResult] = useState<OffspringForecast | null>(null);
     const [isSimulating, setIsSimulating] = useState(false);
+    const [simProgress, setSimProgress] = useState(0);
+    const simAbortRef = useRef<AbortController | null>(null);
     const [lockedGenes, setLockedGenes] = useState<number[]>([]);
     const [activeCategory, setActiveCategory] = useState<ItemCategory | 'all'>('all');
     const [sortBy, setSortBy] = useState<'fitness' | 'generation' | 'breedRemain' | 'dps' | 'element' | 'mastery' | 'rank'>('fitness');
@@ -309,7 +336,8 @@ export function BreedingLab() {
         const rating = ItemDecoder.getRating(child);
         const lockMsg = lockedGenes.length > 0 ? ` [🔒${lockedGenes.length}遺伝子ロック]` : '';
         const inbreedMsg = inbreedPreview?.isInbred ? ` [🧬 近親配合 ${(inbreedPreview.coefficient * 100).toFixed(0)}%]` : '';
-        const diseaseMsg = child.geneticDisease ? ` ⚠️ ${GENETIC_DISEASE_LABELS[child.geneticDisease].name}発症！` : '';
+        const childDiseases = getDiseaseTraits(child.traits);
+        const diseaseMsg = childDiseases.length > 0 ? ` ⚠️ ${childDiseases.map(d => d.name).join('・')}発症！` : '';
         const nameMsg = child.bloodlineName ? ` — ${child.bloodlineName}` : '';
 
         showToast(`✨ ${rating}ランク誕生${nameMsg} (Gen.${child.generation})${lockMsg}${inbreedMsg}${diseaseMsg}`);
@@ -333,17 +361,42 @@ export function BreedingLab() {
         }
     };
 
-    const handleSimulate = () => {
+    // Cancel a running preview when the lab closes
+    useEffect(() => () => { simAbortRef.current?.abort(); }, []);
+
+    // Runs on the simulation worker; clicking again while it runs cancels
+    const handleSimulate = async () => {
         if (!parentA || !parentB) return;
+        if (simAbortRef.current) {
+            simAbortRef.current.abort();
+            return;
+        }
+        const controller = new AbortController();
+        simAbortRef.current = controller;
         setIsSimulating(true);
-
-        setTimeout(() => {
-            const childGenome = GeneticEngine.crossover(parentA.genome, parentB.genome);
-            const enemyGenome = GeneticEngine.createRandomGenome();
-            const result = FastSimulator.simulate(childGenome, enemyGenome, stage, 100);
+        setSimProgress(0);
+
+        try {
+            // Children bred like the real one (locks, mutation, inherited traits + diseases),
+            // each against fresh enemies from the current stage's pool (species + boss odds)
+            const result = await simulationService.simulateOffspring(
+                {
+                    parentA, parentB, stageLevel: stage,
+                    samples: FORECAST_SAMPLES, battlesPerChild: FORECAST_BATTLES_PER_CHILD,
+                    mutationRate: 0.06, lockedGenes,
+                },
+                { signal: controller.signal, onProgress: (done, total) => setSimProgress(done / total) },
+            );
             setSimResult(result);
+        } catch (err) {
+            if (!isSimulationCancelled(err)) {
+                console.error('[BreedingLab] simulation error:', err);
+                showToast('シミュレーションに失敗しました');
+            }
+        } finally {
+            simAbortRef.current = null;
             setIsSimulating(false);
-        }, 50);
+        }
     };
 
     const handleEquipAndResume = (item: Item) => {
@@ -645,39 +698,99 @@ export function BreedingLab() {
                     )}
 
                     {/* Simulation */}
-                    {simResult && (
-                        <div className="sim-box">
-                            <div className="sim-box-title">📈 100戦シミュレーション結果</div>
-                            <div className={`sim-winrate ${simResult.winRate > 0.7 ? 'high' : simResult.winRate > 0.4 ? 'mid' : 'low'}`}>
-                                {(simResult.winRate * 100).toFixed(0)}%
-                            </div>
-                            <div className="sim-stat">
-                                <span className="sim-stat-label">勝率</span>
-                                <span className="sim-stat-value">{simResult.wins}勝 / {simResult.losses}敗</span>
-                            </div>
-                            <div className="sim-stat">
-                                <span className="sim-stat-label">平均キルタイム</span>
-                                <span className="sim-stat-value">{simResult.avgKillTime === Infinity ? '—' : simResult.avgKillTime.toFixed(1)}秒</span>
-                            </div>
-                            <div className="sim-stat">
-                                <span className="sim-stat-label">最速キル</span>
-                                <span className="sim-stat-value">{simResult.bestKillTime.toFixed(1)}秒</span>
-                            </div>
-                            <div className="sim-stat">
-                                <span className="sim-stat-label">平均ダメージ効率</span>
-                                <span className="sim-stat-value">{simResult.avgDamageRatio.toFixed(1)}x</span>
+                    {simResult && (() => {
+                        const pool = simResult.pool;
+                        const traitRows = Object.entries(simResult.traitChances).sort((a, b) => b[1] - a[1]).slice(0, 5);
+                        const topTitles = Object.entries(simResult.titleCounts).sort((a, b) => b[1] - a[1]).slice(0, 3);
+                        return (
+                            <div className="sim-box">
+                                <div className="sim-box-title">📈 子世代予測 ({simResult.samples}体 × {simResult.battlesPerChild}戦, Stage {pool.stageLevel} 敵プール)</div>
+                                <div className={`sim-winrate ${pool.winRate > 0.7 ? 'high' : pool.winRate > 0.4 ? 'mid' : 'low'}`}>
+                                    {(pool.winRate * 100).toFixed(0)}%
+                                </div>
+                                <HistogramBars
+                                    title="個体別勝率の分布"
+                                    bins={simResult.winRateHistogram.map((count, i) => ({ label: `${i * 10}〜${i * 10 + 10}%`, count })).reverse()}
+                                />
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">個体勝率 P10 / P50 / P90</span>
+                                    <span className="sim-stat-value">
+                                        {(simResult.winRatePercentiles.p10 * 100).toFixed(0)} / {(simResult.winRatePercentiles.p50 * 100).toFixed(0)} / {(simResult.winRatePercentiles.p90 * 100).toFixed(0)}%
+                                    </span>
+                                </div>
+                                <HistogramBars
+                                    title="ランク分布"
+                                    bins={FORECAST_RANKS.map(rank => ({ label: rank, count: simResult.rankCounts[rank] ?? 0 }))}
+                                />
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">遺伝病発症率</span>
+                                    <span className="sim-stat-value" style={{ color: simResult.diseaseChance > 0 ? 'var(--accent-red)' : undefined }}>
+                                        {(simResult.diseaseChance * 100).toFixed(0)}%
+                                    </span>
+                                </div>
+                                {traitRows.map(([defId, chance]) => {
+                                    const def = getTraitDef(defId);
+                                    return (
+                                        <div className="sim-stat" key={defId}>
+                                            <span className="sim-stat-label">{def ? `${def.icon} ${def.name}` : defId}</span>
+                                            <span className="sim-stat-value">{(chance * 100).toFixed(0)}%</span>
+                                        </div>
+                                    );
+                                })}
+                                {topTitles.length > 0 && (
+                                    <div className="sim-stat">
+                                        <span className="sim-stat-label">血統称号</span>
+                                        <span className="sim-stat-value">
+                                            {topTitles.map(([title, count]) => `${title}(${Math.round(count / simResult.samples * 100)}%)`).join(' ')}
+                                        </span>
+                                    </div>
+                                )}
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">勝率</span>
+                                    <span className="sim-stat-value">{pool.wins}勝 / {pool.losses}敗</span>
+                                </div>
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">95%信頼区間</span>
+                                    <span className="sim-stat-value">{(pool.winRateCI[0] * 100).toFixed(0)}〜{(pool.winRateCI[1] * 100).toFixed(0)}%</span>
+                                </div>
+                                {(Object.entries(pool.bySpecies) as [EnemySpecies, NonNullable<PoolSimulationResult['bySpecies'][EnemySpecies]>][]).map(([species, s]) => (
+                                    <div className="sim-stat" key={species}>
+                                        <span className="sim-stat-label">vs {SPECIES_LABELS[species]} ({s.battles}戦)</span>
+                                        <span className="sim-stat-value">{(s.winRate * 100).toFixed(0)}% ({(s.winRateCI[0] * 100).toFixed(0)}〜{(s.winRateCI[1] * 100).toFixed(0)}%)</span>
+                                    </div>
+                                ))}
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">平均キルタイム</span>
+                                    <span className="sim-stat-value">{pool.avgKillTime === Infinity ? '—' : pool.avgKillTime.toFixed(1)}秒</span>
+                                </div>
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">キルタイム P10 / P50 / P90</span>
+                                    <span className="sim-stat-value">
+                                        {pool.wins > 0
+                                            ? `${pool.killTimePercentiles.p10.toFixed(1)} / ${pool.killTimePercentiles.p50.toFixed(1)} / ${pool.killTimePercentiles.p90.toFixed(1)}秒`
+                                            : '—'}
+                                    </span>
+                                </div>
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">最速キル</span>
+                                    <span className="sim-stat-value">{pool.bestKillTime.toFixed(1)}秒</span>
+                                </div>
+                                <div className="sim-stat">
+                                    <span className="sim-stat-label">平均ダメージ効率</span>
+                                    <span className="sim-stat-value">{pool.avgDamageRatio.toFixed(1)}x</span>
+                                </div>
                             </div>
-                        </div>
-                    )}
+                        );
+                    })()}
 
                     {/* Action Buttons */}
                     <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginTop: 16 }}>
                         <button
                             className="btn btn-secondary"
                             onClick={handleSimulate}
-                            disabled={!parentA || !parentB || isSimulating}
+                            disabled={!parentA || !parentB}
                         >
-                            {isSimulating ? '⏳ シミュレーション中...' : '📊 100戦シミュレート'}
+                            {isSimulating ? `⏹ シミュレーション中... ${Math.round(simProgress * 100)}% (中断)` : '📊 子世代シミュレート'}
                         </button>
                         <button
                             className="btn btn-breed"
@@ -8,7 +8,8 @@ import { useState, useMemo, useCallback } from 'react';
 import { useGameStore } from '../store/useGameStore';
 import { ItemDecoder } from '../core/ItemDecoder';
 import { GENE_NAMES } from '../core/GeneticEngine';
-import { GENETIC_DISEASE_LABELS, MAX_BREED_COUNT } from '../core/PedigreeSystem';
+import { MAX_BREED_COUNT } from '../core/PedigreeSystem';
+import { getDiseaseTraits } from '../core/TraitSystem';
 import type { Item } from '../core/GeneticEngine';
 
 function AncestorNode({ item, label, archivedStatus, finalMastery, highestStage }: {
@@ -259,11 +260,11 @@ export function DatabasePanel() {
                                         <div className="db-item-gen">
                                             Gen.{item.generation} | 適合度: {item.fitness.toFixed(1)}
                                             {mastery > 0 && <span style={{ color: 'var(--accent-purple)', marginLeft: 6 }}>🔮{mastery}</span>}
-                                            {item.geneticDisease && (
-                                                <span style={{ color: 'var(--accent-red)', marginLeft: 6 }}>
-                                                    {GENETIC_DISEASE_LABELS[item.geneticDisease].icon}
+                                            {getDiseaseTraits(item.traits).map(d => (
+                                                <span key={d.id} style={{ color: 'var(--accent-red)', marginLeft: 6 }} title={d.name}>
+                                                    {d.icon}
                                                 </span>
-                                            )}
+                                            ))}
                                             <span style={{ color: isExpiredBreed ? 'var(--accent-red)' : 'var(--text-dim)', marginLeft: 6, fontSize: 9 }}>
                                                 配合{item.breedCount ?? 0}/{MAX_BREED_COUNT}
                                                 {isExpiredBreed && ' ⏰'}
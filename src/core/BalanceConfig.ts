@@ -0,0 +1,145 @@
+/**
+ * Chimera Gear: Text Edition — Balance Config
+ * Typed balance constants shared by the battle engine, decoder, fitness and mastery models.
+ * Every consumer takes a `balance` argument defaulting to DEFAULT_BALANCE, so simulations
+ * can run alternative profiles side by side without touching global state.
+ */
+
+import type { ElementType } from './ItemDecoder';
+
+// ========== TYPES ==========
+
+export interface BattleBalance {
+    maxTime: number;           // battle timeout (seconds)
+    resistScale: number;       // share of damage a resist of 1.0 removes
+    defenseConstant: number;   // damage × K / (K + defense)
+    defendHealRatio: number;   // defend action heals this share of max HP
+    skillMultiplier: number;   // normal skill damage × attack
+    mutationChance: number;    // mutation skill chance × tactical gene [7]
+    /** Damage multiplier for [attacker element][defender element] */
+    elementAffinity: Record<ElementType, Record<ElementType, number>>;
+}
+
+/** stageBase = base + stage × perStage */
+export interface StageScalingBalance {
+    weaponBase: number;
+    weaponPerStage: number;
+    enemyBase: number;
+    enemyPerStage: number;
+}
+
+export interface RankThreshold {
+    rank: string;
+    minScore: number;          // rating score must exceed this
+}
+
+export interface RatingBalance {
+    thresholds: RankThreshold[];   // checked top-down, highest rank first
+    tankWeight: number;            // weight of defensive value against DPS
+}
+
+export interface FitnessBalance {
+    killTimeBaseline: number;      // kill time (s) that scores 50
+    damageRatioScale: number;      // damage ratio → score multiplier
+    abilityProcCap: number;        // max adaptation bonus from ability procs
+    weights: {
+        killTime: number;
+        damageEfficiency: number;
+        adaptation: number;
+        survival: number;
+    };
+    masteryGains: { minFitness: number; gain: number }[];   // checked top-down
+}
+
+export interface MasteryBalance {
+    cap: number;               // mastery maximum
+    synchroMaxBonus: number;   // attack/defense bonus at cap
+    critTier: number;          // mastery points per crit tier
+    critPerTier: number;       // crit rate per tier
+}
+
+export interface BalanceConfig {
+    battle: BattleBalance;
+    stageScaling: StageScalingBalance;
+    rating: RatingBalance;
+    fitness: FitnessBalance;
+    mastery: MasteryBalance;
+}
+
+/** Per-section overrides for defineBalance */
+export type BalanceOverrides = { [K in keyof BalanceConfig]?: Partial<BalanceConfig[K]> };
+
+// ========== DEFAULT PROFILE ==========
+
+export const DEFAULT_BALANCE: BalanceConfig = {
+    battle: {
+        maxTime: 45,
+        resistScale: 0.8,
+        defenseConstant: 100,
+        defendHealRatio: 0.05,
+        skillMultiplier: 1.3,
+        mutationChance: 0.4,
+        // Weakness cycle 火 → 氷 → 雷 → 火 (fire melts ice, ice grounds lightning, lightning overloads fire)
+        elementAffinity: {
+            Fire: { Fire: 1.0, Ice: 1.25, Lightning: 0.8 },
+            Ice: { Fire: 0.8, Ice: 1.0, Lightning: 1.25 },
+            Lightning: { Fire: 1.25, Ice: 0.8, Lightning: 1.0 },
+        },
+    },
+    stageScaling: {
+        weaponBase: 60,
+        weaponPerStage: 10,
+        enemyBase: 30,
+        enemyPerStage: 4,
+    },
+    rating: {
+        thresholds: [
+            { rank: 'SS', minScore: 700 },
+            { rank: 'S', minScore: 500 },
+            { rank: 'A', minScore: 300 },
+            { rank: 'B', minScore: 150 },
+            { rank: 'C', minScore: 50 },
+        ],
+        tankWeight: 0.3,
+    },
+    fitness: {
+        killTimeBaseline: 30,
+        damageRatioScale: 20,
+        abilityProcCap: 10,
+        weights: { killTime: 0.35, damageEfficiency: 0.30, adaptation: 0.15, survival: 0.20 },
+        masteryGains: [
+            { minFitness: 80, gain: 3 },
+            { minFitness: 50, gain: 2 },
+        ],
+    },
+    mastery: {
+        cap: 100,
+        synchroMaxBonus: 0.1,
+        critTier: 10,
+        critPerTier: 0.01,
+    },
+};
+
+// ========== PROFILES ==========
+
+/** Build a balance profile from the defaults (or `base`) with per-section overrides */
+export function defineBalance(overrides: BalanceOverrides, base: BalanceConfig = DEFAULT_BALANCE): BalanceConfig {
+    return {
+        battle: { ...base.battle, ...overrides.battle },
+        stageScaling: { ...base.stageScaling, ...overrides.stageScaling },
+        rating: { ...base.rating, ...overrides.rating },
+        fitness: { ...base.fitness, ...overrides.fitness },
+        mastery: { ...base.mastery, ...overrides.mastery },
+    };
+}
+
+/** Stable fingerprint of a profile (FNV-1a over its JSON) — replays record it to detect balance drift */
+export function balanceHash(balance: BalanceConfig): string {
+    const json = JSON.stringify(balance);
+    let h = 0x811c9dc5;
+    for (let i = 0; i < json.length; i++) {
+        h ^= json.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { ReplayManager, REPLAY_FORMAT_VERSION } from './BattleReplay';
+import { defineBalance } from './BalanceConfig';
+import type { Genome } from './GeneticEngine';
+
+const weapon: Genome = [0.7, 0.6, 0.1, 0.65, 0.7, 0.6, 0.3, 0.4, 0.5, 0.3];
+const enemies: Genome[] = [
+    [0.4, 0.5, 0.5, 0.1, 0.5, 0.5, 0.5, 0.5, 0.3, 0.2],
+    [0.3, 0.7, 0.85, 0.7, 0.4, 0.6, 0.3, 0.5, 0.2, 0.4],
+];
+
+const record = (balance = defineBalance({})) => ReplayManager.create({
+    weaponGenome: weapon,
+    weaponTraits: [{ defId: 'PP_002', rank: 'Common', source: 'inherited' }],
+    weaponMastery: 40,
+    enemyGenomes: enemies,
+    enemyTraits: [[{ defId: 'SST_003', rank: 'Rare', source: 'mutation' }], []],
+    enemyMasteries: [5, 5],
+    stage: 8,
+    maxTime: 90,
+    initialWeaponHp: 180,
+    weaponMaxHpMult: 0.9,
+    seed: 0xc0ffee,
+    balance,
+});
+
+/** Base64 code for a raw (possibly legacy) payload */
+const code = (data: object) => btoa(JSON.stringify(data));
+
+describe('ReplayManager', () => {
+    it('encode → decode → play reproduces the original battle', () => {
+        for (const balance of [defineBalance({}), defineBalance({ battle: { resistScale: 0.5, maxTime: 60 } })]) {
+            const replay = record(balance);
+            const decoded = ReplayManager.decode(ReplayManager.encode(replay));
+            expect(decoded).toEqual(replay);
+            expect(ReplayManager.isOutdated(decoded!)).toBe(false);
+            expect(ReplayManager.play(decoded!, true)).toEqual(ReplayManager.play(replay, true));
+        }
+    });
+
+    it('decodes v1 single-enemy codes as a one-enemy wave', () => {
+        const replay = ReplayManager.decode(code({ v: 1, s: 7, w: weapon, e: enemies[0], st: 3 }));
+        expect(replay).not.toBeNull();
+        expect(replay!.version).toBe(1);
+        expect(replay!.enemyGenomes).toEqual([enemies[0]]);
+        expect(replay!.enemyTraits).toEqual([[]]);
+        expect(replay!.enemyBosses).toEqual([null]);
+        expect(ReplayManager.isOutdated(replay!)).toBe(true);
+    });
+
+    it('decodes legacy `d` disease codes into a penalty-baked disease trait', () => {
+        const replay = ReplayManager.decode(code({ v: 2, s: 7, w: weapon, e: [enemies[0]], st: 3, d: 'fragile_genome' }));
+        expect(replay!.weaponTraits).toContainEqual({ defId: 'GD_001', rank: 'Common', source: 'inherited', penaltyBaked: true });
+    });
+
+    it('flags a replay whose balance profile no longer matches its recorded hash', () => {
+        const replay = record();
+        expect(ReplayManager.isOutdated(replay)).toBe(false);
+        expect(ReplayManager.isOutdated({ ...replay, balance: defineBalance({ battle: { defenseConstant: 80 } }) })).toBe(true);
+    });
+
+    it('rejects malformed and newer-version codes', () => {
+        const valid = JSON.parse(atob(ReplayManager.encode(record())));
+        expect(ReplayManager.decode('not base64 at all!')).toBeNull();
+        expect(ReplayManager.decode(btoa('{"v":'))).toBeNull();
+        expect(ReplayManager.decode(code({ ...valid, v: REPLAY_FORMAT_VERSION + 1 }))).toBeNull();
+        expect(ReplayManager.decode(code({ ...valid, v: 0 }))).toBeNull();
+        expect(ReplayManager.decode(code({ ...valid, w: [1, 2, 3] }))).toBeNull();
+        expect(ReplayManager.decode(code({ ...valid, e: [] }))).toBeNull();
+        expect(ReplayManager.decode(code({ ...valid, s: 'seed' }))).toBeNull();
+    });
+});
@@ -0,0 +1,185 @@
+/**
+ * Chimera Gear: Text Edition — Battle Replay
+ * Compact seed + inputs record. Because runBattle is deterministic for a given
+ * rng, the full log can be regenerated instead of stored.
+ * Any engine change that alters outcomes for the same seed + inputs bumps
+ * REPLAY_FORMAT_VERSION; older records still decode but are flagged outdated.
+ * The balance profile is fingerprinted too, so a retuned default also flags them.
+ */
+
+import type { Genome } from './GeneticEngine';
+import { addLegacyDiseaseTrait, legacyDiseaseToTrait, type TraitInstance } from './TraitSystem';
+import { TextBattleEngine, type BattleResult } from './TextBattleEngine';
+import { getBossDefinition, type BossDefinition } from './BossScripts';
+import { createRng, randomSeed } from './mathUtils';
+import { DEFAULT_BALANCE, balanceHash, defineBalance, type BalanceConfig } from './BalanceConfig';
+
+/** v8: event-driven scheduler, v7: lookahead AI, v6: element affinity, v5: status effects, v4: boss scripts, v3: enemy traits + mastery, v2: multi-enemy waves (v1 = single enemy) */
+export const REPLAY_FORMAT_VERSION = 8;
+
+type EncodedTrait = [string, TraitInstance['rank'], TraitInstance['source'], 1?];
+
+export interface BattleReplay {
+    version: number;           // engine version the battle was recorded under
+    seed: number;
+    weaponGenome: Genome;
+    weaponTraits: TraitInstance[];
+    weaponMastery: number;
+    enemyGenomes: Genome[];
+    enemyTraits: TraitInstance[][];   // per enemy, same order as enemyGenomes
+    enemyMasteries: number[];
+    enemyBosses: (number | null)[];   // boss definition stage per enemy (null = regular enemy)
+    stage: number;
+    maxTime: number;
+    initialWeaponHp: number | null;
+    weaponMaxHpMult: number;   // wave-persistent max HP modifier (1 = none)
+    balance: BalanceConfig;
+    balanceHash: string;       // fingerprint of the profile at record time
+    recordedAt: number;    // timestamp
+}
+
+export class ReplayManager {
+    /** Build a replay record from battle inputs (fresh seed if omitted) */
+    static create(input: {
+        weaponGenome: Genome;
+        enemyGenomes: Genome[];
+        enemyTraits?: TraitInstance[][];
+        enemyMasteries?: number[];
+        enemyBosses?: (BossDefinition | null)[];
+        stage: number;
+        maxTime?: number;
+        weaponTraits?: TraitInstance[];
+        initialWeaponHp?: number | null;
+        weaponMaxHpMult?: number;
+        weaponMastery?: number;
+        seed?: number;
+        balance?: BalanceConfig;
+    }): BattleReplay {
+        const balance = input.balance ?? DEFAULT_BALANCE;
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            seed: input.seed ?? randomSeed(),
+            weaponGenome: [...input.weaponGenome],
+            weaponTraits: (input.weaponTraits ?? []).map(t => ({ ...t })),
+            weaponMastery: input.weaponMastery ?? 0,
+            enemyGenomes: input.enemyGenomes.map(g => [...g]),
+            enemyTraits: input.enemyGenomes.map((_, i) => (input.enemyTraits?.[i] ?? []).map(t => ({ ...t }))),
+            enemyMasteries: input.enemyGenomes.map((_, i) => input.enemyMasteries?.[i] ?? 0),
+            enemyBosses: input.enemyGenomes.map((_, i) => input.enemyBosses?.[i]?.stage ?? null),
+            stage: input.stage,
+            maxTime: input.maxTime ?? balance.battle.maxTime,
+            initialWeaponHp: input.initialWeaponHp ?? null,
+            weaponMaxHpMult: input.weaponMaxHpMult ?? 1,
+            balance,
+            balanceHash: balanceHash(balance),
+            recordedAt: Date.now(),
+        };
+    }
+
+    /**
+     * Re-run the recorded battle — yields the exact same BattleResult as the
+     * original for current records. Outdated records (see isOutdated) replay
+     * their inputs under today's rules, so the fight can differ.
+     * `quiet` silences the engine's debug warnings (simulated stage runs).
+     */
+    static play(replay: BattleReplay, quiet: boolean = false): BattleResult {
+        return TextBattleEngine.runWaveBattle(replay.weaponGenome, replay.enemyGenomes, {
+            stageLevel: replay.stage,
+            maxTime: replay.maxTime,
+            weaponTraits: replay.weaponTraits,
+            carry: { hp: replay.initialWeaponHp, maxHpMult: replay.weaponMaxHpMult },
+            weaponMastery: replay.weaponMastery,
+            enemyTraits: replay.enemyTraits,
+            enemyMasteries: replay.enemyMasteries,
+            enemyBosses: replay.enemyBosses.map(stage => stage !== null ? getBossDefinition(stage) ?? null : null),
+            rng: createRng(replay.seed),
+            balance: replay.balance,
+            quiet,
+        });
+    }
+
+    /** Recorded under an older engine or balance profile: playback will not reproduce the original battle */
+    static isOutdated(replay: BattleReplay): boolean {
+        return replay.version < REPLAY_FORMAT_VERSION || replay.balanceHash !== balanceHash(replay.balance);
+    }
+
+    /** Encode a replay as a shareable Base64 string. The profile itself is only embedded when it is not the default. */
+    static encode(replay: BattleReplay): string {
+        const isDefault = replay.balanceHash === balanceHash(DEFAULT_BALANCE);
+        const data = {
+            v: replay.version,
+            s: replay.seed,
+            w: replay.weaponGenome,
+            t: this.encodeTraits(replay.weaponTraits),
+            m: replay.weaponMastery,
+            e: replay.enemyGenomes,
+            et: replay.enemyTraits.map(traits => this.encodeTraits(traits)),
+            em: replay.enemyMasteries,
+            eb: replay.enemyBosses,
+            st: replay.stage,
+            mt: replay.maxTime,
+            hp: replay.initialWeaponHp,
+            hm: replay.weaponMaxHpMult,
+            bh: replay.balanceHash,
+            b: isDefault ? undefined : replay.balance,
+            at: replay.recordedAt,
+        };
+        return btoa(JSON.stringify(data));
+    }
+
+    /** Decode a replay string. Returns null for malformed or newer-version codes; older codes keep their version. */
+    static decode(code: string): BattleReplay | null {
+        try {
+            const data = JSON.parse(atob(code.trim()));
+            if (typeof data.v !== 'number' || data.v < 1 || data.v > REPLAY_FORMAT_VERSION) return null;
+            const isGenome = (g: unknown): g is Genome =>
+                Array.isArray(g) && g.length === 10 && g.every(v => typeof v === 'number');
+            // v1 codes stored a single enemy genome
+            const enemyGenomes: unknown[] = data.v === 1 ? [data.e] : data.e;
+            if (!isGenome(data.w) || !Array.isArray(enemyGenomes) || enemyGenomes.length === 0
+                || !enemyGenomes.every(isGenome)) return null;
+            if (typeof data.s !== 'number' || typeof data.st !== 'number') return null;
+
+            // Codes recorded before diseases became traits carry a legacy `d` field
+            const legacyDisease = legacyDiseaseToTrait(data.d);
+            const weaponTraits = legacyDisease
+                ? addLegacyDiseaseTrait(this.decodeTraits(data.t), legacyDisease)
+                : this.decodeTraits(data.t);
+            // Codes before v7 carry no profile and were recorded under the default balance of their time
+            const balance = data.b && typeof data.b === 'object' ? defineBalance(data.b) : DEFAULT_BALANCE;
+
+            return {
+                version: data.v,
+                seed: data.s >>> 0,
+                weaponGenome: data.w,
+                weaponTraits,
+                weaponMastery: typeof data.m === 'number' ? data.m : 0,
+                enemyGenomes: enemyGenomes as Genome[],
+                // Codes before v3 had trait-less, mastery-0 enemies
+                enemyTraits: enemyGenomes.map((_, i) => this.decodeTraits(Array.isArray(data.et) ? data.et[i] : undefined)),
+                enemyMasteries: enemyGenomes.map((_, i) => Array.isArray(data.em) && typeof data.em[i] === 'number' ? data.em[i] : 0),
+                // Codes before v4 had no boss scripts
+                enemyBosses: enemyGenomes.map((_, i) => Array.isArray(data.eb) && typeof data.eb[i] === 'number' ? data.eb[i] : null),
+                stage: data.st,
+                maxTime: typeof data.mt === 'number' ? data.mt : balance.battle.maxTime,
+                initialWeaponHp: typeof data.hp === 'number' ? data.hp : null,
+                weaponMaxHpMult: typeof data.hm === 'number' ? data.hm : 1,
+                balance,
+                balanceHash: typeof data.bh === 'string' ? data.bh : balanceHash(balance),
+                recordedAt: typeof data.at === 'number' ? data.at : 0,
+            };
+        } catch {
+            return null;
+        }
+    }
+
+    /** [defId, rank, source] — plus a trailing 1 for penaltyBaked (migrated legacy diseases) */
+    private static encodeTraits(traits: TraitInstance[]): EncodedTrait[] {
+        return traits.map(t => t.penaltyBaked ? [t.defId, t.rank, t.source, 1] : [t.defId, t.rank, t.source]);
+    }
+
+    private static decodeTraits(raw: unknown): TraitInstance[] {
+        if (!Array.isArray(raw)) return [];
+        return raw.map(([defId, rank, source, baked]: EncodedTrait) => baked ? { defId, rank, source, penaltyBaked: true } : { defId, rank, source });
+    }
+}
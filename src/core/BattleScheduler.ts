@@ -0,0 +1,77 @@
+/**
+ * Chimera Gear: Text Edition — Battle Scheduler
+ * Priority queue of keyed event times. The battle loop jumps straight to the
+ * next time anything happens instead of stepping a fixed tick.
+ */
+
+interface ScheduledEntry<K> {
+    time: number;
+    key: K;
+}
+
+/**
+ * Binary min-heap keyed by event source (one pending time per key).
+ * Rescheduling a key leaves its old entry in the heap; stale entries are
+ * dropped lazily when they reach the top.
+ */
+export class BattleScheduler<K> {
+    private heap: ScheduledEntry<K>[] = [];
+    private pending = new Map<K, number>();
+
+    /** Schedule `key` at `time`, replacing its previous time. Infinity cancels. */
+    schedule(key: K, time: number): void {
+        if (!Number.isFinite(time)) {
+            this.pending.delete(key);
+            return;
+        }
+        if (this.pending.get(key) === time) return;
+        this.pending.set(key, time);
+        this.push({ time, key });
+    }
+
+    cancel(key: K): void {
+        this.pending.delete(key);
+    }
+
+    /** Earliest pending time (Infinity when nothing is scheduled) */
+    peekTime(): number {
+        while (this.heap.length > 0) {
+            const top = this.heap[0];
+            if (this.pending.get(top.key) === top.time) return top.time;
+            this.pop();
+        }
+        return Infinity;
+    }
+
+    // ========== HEAP ==========
+
+    private push(entry: ScheduledEntry<K>): void {
+        const heap = this.heap;
+        heap.push(entry);
+        let i = heap.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (heap[parent].time <= heap[i].time) break;
+            [heap[parent], heap[i]] = [heap[i], heap[parent]];
+            i = parent;
+        }
+    }
+
+    private pop(): void {
+        const heap = this.heap;
+        const last = heap.pop()!;
+        if (heap.length === 0) return;
+        heap[0] = last;
+        let i = 0;
+        for (;;) {
+            const left = i * 2 + 1;
+            const right = left + 1;
+            let smallest = i;
+            if (left < heap.length && heap[left].time < heap[smallest].time) smallest = left;
+            if (right < heap.length && heap[right].time < heap[smallest].time) smallest = right;
+            if (smallest === i) break;
+            [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+            i = smallest;
+        }
+    }
+}
@@ -0,0 +1,80 @@
+/**
+ * Chimera Gear: Text Edition — Battle Telemetry
+ * Per-side counters the engine fills while a battle runs, so fitness, UI and
+ * simulations read structured numbers instead of re-scanning log strings.
+ */
+
+import type { ActionType, ElementType } from './ItemDecoder';
+
+// ========== TYPES ==========
+
+export type DamageSource = 'attack' | 'skill' | 'mutation' | 'dot' | 'thorns';
+export type TelemetryElement = ElementType | 'none';   // 'none' = non-elemental (curse, thorns)
+
+export interface SideTelemetry {
+    actions: Record<ActionType, number>;
+    evaded: number;            // attacks / skills the target dodged
+    hits: number;              // normal attacks that landed (the only crit-capable action)
+    crits: number;
+    critRate: number;          // crits / hits (0 if no hits)
+    damageByElement: Record<TelemetryElement, number>;   // damage dealt to the other side
+    damageBySource: Record<DamageSource, number>;
+    healing: number;           // defend heals, lifesteal, boss heals
+    lowHpTime: number;         // seconds below LOW_HP_RATIO of max HP (enemy side: summed over enemies)
+    traitProcs: Record<string, number>;   // trigger procs by trait name
+}
+
+export interface BattleTelemetry {
+    weapon: SideTelemetry;
+    enemy: SideTelemetry;
+}
+
+// ========== CONSTANTS ==========
+
+/** HP share below which a combatant counts as "low HP" (AI defense instinct + telemetry) */
+export const LOW_HP_RATIO = 0.3;
+
+// ========== CORE FUNCTIONS ==========
+
+function createSideTelemetry(): SideTelemetry {
+    return {
+        actions: { attack: 0, skill: 0, defend: 0 },
+        evaded: 0,
+        hits: 0,
+        crits: 0,
+        critRate: 0,
+        damageByElement: { Fire: 0, Ice: 0, Lightning: 0, none: 0 },
+        damageBySource: { attack: 0, skill: 0, mutation: 0, dot: 0, thorns: 0 },
+        healing: 0,
+        lowHpTime: 0,
+        traitProcs: {},
+    };
+}
+
+export function createBattleTelemetry(): BattleTelemetry {
+    return { weapon: createSideTelemetry(), enemy: createSideTelemetry() };
+}
+
+/** Record damage one side dealt to the other */
+export function recordTelemetryDamage(side: SideTelemetry, source: DamageSource, element: TelemetryElement, amount: number): void {
+    if (amount <= 0) return;
+    side.damageBySource[source] += amount;
+    side.damageByElement[element] += amount;
+}
+
+export function recordTraitProc(side: SideTelemetry, traitName: string): void {
+    side.traitProcs[traitName] = (side.traitProcs[traitName] ?? 0) + 1;
+}
+
+/** Derive rates and round accumulated floats once the battle is over (mutates) */
+export function finalizeTelemetry(telemetry: BattleTelemetry): BattleTelemetry {
+    const round1 = (v: number) => Math.round(v * 10) / 10;
+    for (const side of [telemetry.weapon, telemetry.enemy]) {
+        side.critRate = side.hits > 0 ? side.crits / side.hits : 0;
+        side.healing = round1(side.healing);
+        side.lowHpTime = round1(side.lowHpTime);
+        for (const key of Object.keys(side.damageByElement) as TelemetryElement[]) side.damageByElement[key] = round1(side.damageByElement[key]);
+        for (const key of Object.keys(side.damageBySource) as DamageSource[]) side.damageBySource[key] = round1(side.damageBySource[key]);
+    }
+    return telemetry;
+}
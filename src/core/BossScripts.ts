@@ -0,0 +1,257 @@
+/**
+ * Chimera Gear: Text Edition — Boss Scripts
+ * Named boss definitions: HP-threshold phases, signature skills,
+ * element shifts and enrage timers, executed by TextBattleEngine
+ */
+
+import type { ElementType } from './ItemDecoder';
+import type { StatusKind } from './StatusEffects';
+
+// ========== TYPES ==========
+
+/** Scripted skill cast on its own timer, independent of the boss's normal actions */
+export interface BossSkill {
+    name: string;
+    interval: number;           // seconds between casts (first cast after one interval)
+    damageMultiplier: number;   // × boss attack, reduced by resistance + defense (0 = no damage)
+    element?: ElementType;      // defaults to the boss's current element
+    ignoresDefense?: boolean;
+    currentHpRatio?: number;    // instead: damage = target's current HP × X (ignores resist / defense)
+    status?: { kind: StatusKind; duration: number; dpsRatio: number };  // dps = attack × dpsRatio
+    heal?: number;              // boss heals X of its max HP
+}
+
+/** Phases cannot be skipped — a hit never takes the boss below a threshold it has not reached yet */
+export interface BossPhase {
+    hpBelow: number;            // phase starts once the HP ratio drops to this (first phase: 1)
+    name: string;
+    message: string;
+    element?: ElementType | 'adaptive';  // element shift on entry ('adaptive' = target's weakest resist)
+    statMods?: Partial<Record<'attack' | 'defense' | 'attackSpeed', number>>;  // ×(1+X) on entry
+    heal?: number;              // boss heals X of its max HP on entry
+    skills: BossSkill[];        // signature skills while this phase is active
+}
+
+export interface BossEnrage {
+    time: number;               // seconds into the fight
+    attackMult: number;
+    speedMult: number;          // action speed ×X (attackSpeed is seconds per action)
+    message: string;
+}
+
+export interface BossDefinition {
+    stage: number;
+    name: string;
+    title: string;
+    phases: BossPhase[];        // ordered by hpBelow, descending
+    enrage?: BossEnrage;
+}
+
+// ========== BOSS LIBRARY ==========
+
+export const BOSS_DEFINITIONS: Record<number, BossDefinition> = {
+    10: {
+        stage: 10, name: '番犬型試作体ケルベロス', title: '目覚め',
+        phases: [
+            {
+                hpBelow: 1, name: '番犬の警戒', message: '三つの首が侵入者を捉えた',
+                skills: [{ name: '三頭咬撃', interval: 7, damageMultiplier: 1.6 }],
+            },
+            {
+                hpBelow: 0.5, name: '狂犬化', message: '首が炎を吐き始めた', element: 'Fire',
+                statMods: { attack: 0.3, attackSpeed: -0.2 },
+                skills: [{ name: '獄炎の咆哮', interval: 5, damageMultiplier: 1.6, status: { kind: 'burn', duration: 4, dpsRatio: 0.1 } }],
+            },
+        ],
+        enrage: { time: 60, attackMult: 1.5, speedMult: 1.3, message: '番犬が我を失った' },
+    },
+    20: {
+        stage: 20, name: '深海型適応体リヴァイアサン', title: '休息',
+        phases: [
+            {
+                hpBelow: 1, name: '深海の抱擁', message: '周囲が冷たい水圧に包まれる', element: 'Ice',
+                skills: [
+                    { name: '大津波', interval: 8, damageMultiplier: 1.4 },
+                    { name: '潮の再生', interval: 10, damageMultiplier: 0, heal: 0.05 },
+                ],
+            },
+            {
+                hpBelow: 0.4, name: '嵐の王', message: '海が荒れ、雷雲が渦を巻く', element: 'Lightning',
+                statMods: { attack: 0.25 },
+                skills: [{ name: '雷渦', interval: 6, damageMultiplier: 1.3, status: { kind: 'shock', duration: 3, dpsRatio: 0.2 } }],
+            },
+        ],
+        enrage: { time: 75, attackMult: 1.4, speedMult: 1.2, message: '深海の怒りが解き放たれた' },
+    },
+    30: {
+        stage: 30, name: '暴食型突然変異体フェンリル', title: '熱',
+        phases: [
+            {
+                hpBelow: 1, name: '捕食本能', message: '獲物の匂いを嗅ぎつけた',
+                skills: [{ name: '貪り喰らう', interval: 8, damageMultiplier: 1.5, heal: 0.04 }],
+            },
+            {
+                hpBelow: 0.3, name: '飢餓', message: '飢えが理性を焼き尽くす',
+                statMods: { attack: 0.5, defense: -0.3, attackSpeed: -0.25 },
+                skills: [{ name: '神喰らい', interval: 5, damageMultiplier: 1.8, heal: 0.06 }],
+            },
+        ],
+        enrage: { time: 60, attackMult: 1.5, speedMult: 1.3, message: '飢えた狼が暴走した' },
+    },
+    40: {
+        stage: 40, name: '空戦型制圧体バハムート', title: 'ソルジャー',
+        phases: [
+            {
+                hpBelow: 1, name: '制空権確保', message: '上空から照準を合わせている',
+                skills: [{ name: '急降下爆撃', interval: 9, damageMultiplier: 2.0, ignoresDefense: true }],
+            },
+            {
+                hpBelow: 0.5, name: '竜王の息吹', message: '喉元に灼熱が集まっていく', element: 'Fire',
+                statMods: { defense: 0.3 },
+                skills: [
+                    { name: '急降下爆撃', interval: 9, damageMultiplier: 2.0, ignoresDefense: true },
+                    { name: 'メガフレア', interval: 12, damageMultiplier: 2.5, status: { kind: 'burn', duration: 5, dpsRatio: 0.15 } },
+                ],
+            },
+        ],
+        enrage: { time: 80, attackMult: 1.5, speedMult: 1.2, message: '制圧モード最大出力' },
+    },
+    50: {
+        stage: 50, name: '循環型巨大体ヨルムンガンド', title: 'チーム',
+        phases: [
+            {
+                hpBelow: 1, name: '大いなる循環', message: '巨体が再生を繰り返している',
+                skills: [
+                    { name: '締め付け', interval: 10, damageMultiplier: 1.2, status: { kind: 'freeze', duration: 1, dpsRatio: 0 } },
+                    { name: '循環再生', interval: 8, damageMultiplier: 0, heal: 0.04 },
+                ],
+            },
+            {
+                hpBelow: 0.5, name: '硬化外殻', message: '鱗が鋼のように硬化した',
+                statMods: { defense: 0.5 },
+                skills: [{ name: '締め付け', interval: 8, damageMultiplier: 1.4, status: { kind: 'freeze', duration: 1, dpsRatio: 0 } }],
+            },
+            {
+                hpBelow: 0.2, name: '尾を喰らう蛇', message: '自らの尾を喰らい、傷が塞がっていく',
+                heal: 0.2,
+                skills: [{ name: '世界蛇の毒', interval: 6, damageMultiplier: 1.0, status: { kind: 'curse', duration: 4, dpsRatio: 0.1 } }],
+            },
+        ],
+        enrage: { time: 90, attackMult: 1.5, speedMult: 1.3, message: '循環が暴走を始めた' },
+    },
+    60: {
+        stage: 60, name: '焦土型殲滅体スルト', title: '静寂',
+        phases: [
+            {
+                hpBelow: 1, name: '焦土化', message: '周囲一帯が炎に包まれた', element: 'Fire',
+                skills: [{ name: '焦土の炎', interval: 6, damageMultiplier: 1.2, status: { kind: 'burn', duration: 4, dpsRatio: 0.12 } }],
+            },
+            {
+                hpBelow: 0.5, name: '炎の剣', message: '燃え盛る剣レーヴァテインを抜いた',
+                statMods: { attack: 0.3 },
+                skills: [
+                    { name: 'レーヴァテイン', interval: 8, damageMultiplier: 2.2, status: { kind: 'burn', duration: 5, dpsRatio: 0.15 } },
+                    { name: '焦土の炎', interval: 6, damageMultiplier: 1.2, status: { kind: 'burn', duration: 4, dpsRatio: 0.12 } },
+                ],
+            },
+        ],
+        enrage: { time: 45, attackMult: 1.6, speedMult: 1.3, message: '世界を焼く炎が解き放たれた' },
+    },
+    70: {
+        stage: 70, name: '原初型支配体ティアマト', title: 'ノイズ',
+        phases: [
+            {
+                hpBelow: 1, name: '塩水の母', message: '原初の海が凍てついていく', element: 'Ice',
+                skills: [{ name: '原初の氷海', interval: 7, damageMultiplier: 1.5, status: { kind: 'freeze', duration: 1, dpsRatio: 0 } }],
+            },
+            {
+                hpBelow: 0.66, name: '混沌の炎', message: '海が沸騰し、炎の獣が生まれる', element: 'Fire',
+                statMods: { attack: 0.2 },
+                skills: [{ name: '混沌の業火', interval: 7, damageMultiplier: 1.6, status: { kind: 'burn', duration: 4, dpsRatio: 0.15 } }],
+            },
+            {
+                hpBelow: 0.33, name: '天地開闢', message: '裂けた天から雷が降り注ぐ', element: 'Lightning',
+                statMods: { attack: 0.2, attackSpeed: -0.2 },
+                skills: [{ name: '開闢の雷', interval: 6, damageMultiplier: 1.8, status: { kind: 'shock', duration: 3, dpsRatio: 0.2 } }],
+            },
+        ],
+        enrage: { time: 90, attackMult: 1.5, speedMult: 1.3, message: '原初の混沌が溢れ出した' },
+    },
+    80: {
+        stage: 80, name: '裁定型禁忌体アヌビス', title: '怪物',
+        phases: [
+            {
+                hpBelow: 1, name: '死者の審判', message: '天秤が静かに揺れている',
+                skills: [{ name: '心臓の計量', interval: 10, damageMultiplier: 0, currentHpRatio: 0.25 }],
+            },
+            {
+                hpBelow: 0.4, name: '冥府の門', message: '冥府の門が開かれた',
+                statMods: { attack: 0.3 },
+                skills: [
+                    { name: '心臓の計量', interval: 10, damageMultiplier: 0, currentHpRatio: 0.25 },
+                    { name: '冥府の呪い', interval: 6, damageMultiplier: 0.8, status: { kind: 'curse', duration: 5, dpsRatio: 0.15 } },
+                ],
+            },
+        ],
+        enrage: { time: 80, attackMult: 1.6, speedMult: 1.2, message: '審判は下された' },
+    },
+    90: {
+        stage: 90, name: '超越型観測体メタトロン', title: 'キメラ',
+        phases: [
+            {
+                hpBelow: 1, name: '観測開始', message: '対象の耐性データを解析中…', element: 'adaptive',
+                skills: [{ name: '裁きの光', interval: 8, damageMultiplier: 1.8, ignoresDefense: true }],
+            },
+            {
+                hpBelow: 0.5, name: '七十二の翼', message: '解析完了。最適解を実行する', element: 'adaptive',
+                statMods: { attack: 0.3, attackSpeed: -0.2 },
+                skills: [
+                    { name: '裁きの光', interval: 7, damageMultiplier: 1.8, ignoresDefense: true },
+                    { name: '天使の雷鎚', interval: 9, damageMultiplier: 1.2, element: 'Lightning', status: { kind: 'shock', duration: 3, dpsRatio: 0.25 } },
+                ],
+            },
+        ],
+        enrage: { time: 90, attackMult: 1.6, speedMult: 1.3, message: '観測対象を排除対象に変更' },
+    },
+    100: {
+        stage: 100, name: '開発責任者 ミナト', title: '最終戦',
+        phases: [
+            {
+                hpBelow: 1, name: '開発責任者', message: '「……ここまで来たか。私の最高傑作」',
+                skills: [{ name: 'デバッグコマンド', interval: 8, damageMultiplier: 1.5, ignoresDefense: true }],
+            },
+            {
+                hpBelow: 0.75, name: '仕様変更', message: '「君の弱点は把握している」', element: 'adaptive',
+                statMods: { attack: 0.2 },
+                skills: [
+                    { name: 'デバッグコマンド', interval: 8, damageMultiplier: 1.5, ignoresDefense: true },
+                    { name: '強制アップデート', interval: 10, damageMultiplier: 1.8, status: { kind: 'shock', duration: 3, dpsRatio: 0.25 } },
+                ],
+            },
+            {
+                hpBelow: 0.5, name: 'キメラ・プロトコル', message: '「全遺伝子、解放」', element: 'adaptive',
+                statMods: { defense: 0.3 }, heal: 0.15,
+                skills: [
+                    { name: '全属性解放', interval: 9, damageMultiplier: 2.0, element: 'Fire', status: { kind: 'burn', duration: 5, dpsRatio: 0.15 } },
+                    { name: '絶対零度', interval: 12, damageMultiplier: 1.5, element: 'Ice', status: { kind: 'freeze', duration: 1.5, dpsRatio: 0 } },
+                ],
+            },
+            {
+                hpBelow: 0.2, name: '最終戦', message: '「終わらせよう。君も、私も」', element: 'adaptive',
+                statMods: { attack: 0.5, attackSpeed: -0.3 },
+                skills: [
+                    { name: '終焉のコード', interval: 10, damageMultiplier: 3.0, ignoresDefense: true },
+                    { name: '心臓の計量', interval: 7, damageMultiplier: 0, currentHpRatio: 0.2 },
+                ],
+            },
+        ],
+        enrage: { time: 120, attackMult: 1.8, speedMult: 1.5, message: '「時間切れだ」' },
+    },
+};
+
+// ========== HELPERS ==========
+
+/** Named boss for a stage (undefined for non-boss stages) */
+export function getBossDefinition(stage: number): BossDefinition | undefined {
+    return BOSS_DEFINITIONS[stage];
+}
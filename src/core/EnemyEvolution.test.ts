@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { EnemyEvolution } from './EnemyEvolution';
+import { createRng } from './mathUtils';
+
+/** An evolution with player history: bred ancestors and a dominant Fire element */
+const seasoned = (): EnemyEvolution => {
+    const evolution = new EnemyEvolution();
+    evolution.logPlayerAttack('Fire', 500);
+    evolution.logPlayerAttack('Ice', 120);
+    [0.3, 0.5, 0.7].forEach((g, i) => evolution.logEnemyDeath(
+        { id: `enemy_${i}`, genome: Array.from({ length: 10 }, (_, j) => (g + j * 0.07) % 1), fitness: 0, generation: i + 1 },
+        10 + i, 40 + i * 5,
+    ));
+    return evolution;
+};
+
+describe('EnemyEvolution spawns', () => {
+    it('spawnEnemy yields the same sequence of spawns for the same seed', () => {
+        for (const build of [() => new EnemyEvolution(), seasoned]) {
+            const spawnAll = () => {
+                const evolution = build();
+                const rng = createRng(9);
+                return Array.from({ length: 8 }, () => evolution.spawnEnemy(12, rng));
+            };
+            expect(spawnAll()).toEqual(spawnAll());
+        }
+    });
+
+    it('spawnBoss yields the same boss for the same seed', () => {
+        for (const build of [() => new EnemyEvolution(), seasoned]) {
+            const spawn = () => build().spawnBoss(20, createRng(77));
+            const boss = spawn();
+            expect(boss.species).toBe('boss');
+            expect(spawn()).toEqual(boss);
+        }
+    });
+});
+
+describe('EnemyEvolution snapshots', () => {
+    it('rebuilds an evolution that spawns exactly like the original', () => {
+        const original = seasoned();
+        const snapshot = original.toSnapshot();
+        const rebuilt = EnemyEvolution.fromSnapshot(structuredClone(snapshot));
+        expect(rebuilt.getDominantPlayerElement()).toBe('Fire');
+        expect(rebuilt.spawnEnemy(12, createRng(5))).toEqual(original.spawnEnemy(12, createRng(5)));
+        expect(rebuilt.spawnBoss(20, createRng(6))).toEqual(original.spawnBoss(20, createRng(6)));
+    });
+
+    it('keeps the snapshot apart from later changes on either side', () => {
+        const original = seasoned();
+        const snapshot = original.toSnapshot();
+        const rebuilt = EnemyEvolution.fromSnapshot(snapshot);
+        rebuilt.logPlayerAttack('Lightning', 9999);
+        original.resetStageTracking();
+        expect(snapshot.playerElementDamage).toEqual({ Fire: 500, Ice: 120 });
+        expect(EnemyEvolution.fromSnapshot(snapshot).getDominantPlayerElement()).toBe('Fire');
+    });
+});
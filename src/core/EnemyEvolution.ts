@@ -1,5 +1,8 @@
 import { GeneticEngine, type Genome, type Item } from './GeneticEngine';
-import { clampGene, boostResistance, createStageGenome } from './mathUtils';
+import { ItemDecoder, type ElementType } from './ItemDecoder';
+import { clampGene, boostResistance, createStageGenome, type Rng } from './mathUtils';
+import { getBossDefinition, type BossDefinition } from './BossScripts';
+import { TRAIT_CONFIG, TRAIT_LIBRARY, type TraitDefinition, type TraitInstance, type TraitRank } from './TraitSystem';
 
 export interface CounterReport {
     stage: number;
@@ -12,11 +15,74 @@ export interface CounterReport {
 
 export type EnemySpecies = 'standard' | 'tank' | 'attacker' | 'boss';
 
+/** Plain-data EnemyEvolution state (structured-clone safe) — ships the live evolution to the simulation worker */
+export interface EnemyEvolutionSnapshot {
+    generationCount: number;
+    ancestors: Item[];
+    playerElementDamage: Record<string, number>;
+}
+
+/** Display label per species */
+export const SPECIES_LABELS: Record<EnemySpecies, string> = {
+    standard: '👾通常',
+    tank: '🛡️タンク',
+    attacker: '⚔️アタッカー',
+    boss: '👑ボス',
+};
+
+export interface EnemySpawn {
+    genome: Genome;
+    generation: number;
+    species: EnemySpecies;
+    traits: TraitInstance[];
+    mastery: number;        // 0~100, same synchro/crit bonus as weapon mastery
+    boss?: BossDefinition;  // named boss script (boss stages only)
+}
+
+/** Gene [2] value that decodes to each element */
+const ELEMENT_GENE: Record<ElementType, number> = { Fire: 0.15, Ice: 0.5, Lightning: 0.85 };
+
+/** Share of regular spawns that switch to the element countering the player (bosses always do) */
+const COUNTER_ELEMENT_CHANCE = 0.35;
+
+/** Trait stats each species leans towards — matching traits are 3× as likely */
+const SPECIES_TRAIT_FOCUS: Record<EnemySpecies, string[]> = {
+    standard: [],
+    tank: ['defense', 'maxHp', 'fireResist', 'iceResist', 'lightningResist'],
+    attacker: ['attack', 'attackSpeed', 'critRate', 'lifesteal'],
+    boss: [],
+};
+
+/** Deep copy of an ancestor, so snapshots never share genomes with a live evolution */
+const copyAncestor = (item: Item): Item => ({
+    ...item,
+    genome: [...item.genome],
+    traits: item.traits?.map(t => ({ ...t })),
+});
+
 export class EnemyEvolution {
     private generationCount = 1;
     private bestAncestors: Item[] = [];
     private playerElementDamage: Map<string, number> = new Map();
 
+    /** Copy of the evolution state: bred ancestors and the player element log */
+    toSnapshot(): EnemyEvolutionSnapshot {
+        return {
+            generationCount: this.generationCount,
+            ancestors: this.bestAncestors.map(copyAncestor),
+            playerElementDamage: Object.fromEntries(this.playerElementDamage),
+        };
+    }
+
+    /** Rebuild an evolution from a snapshot (the snapshot itself is left untouched) */
+    static fromSnapshot(snapshot: EnemyEvolutionSnapshot): EnemyEvolution {
+        const evolution = new EnemyEvolution();
+        evolution.generationCount = snapshot.generationCount;
+        evolution.bestAncestors = snapshot.ancestors.map(copyAncestor);
+        evolution.playerElementDamage = new Map(Object.entries(snapshot.playerElementDamage));
+        return evolution;
+    }
+
     /** Record player attack for meta-analysis */
     logPlayerAttack(element: string, damage: number) {
         const current = this.playerElementDamage.get(element) || 0;
@@ -50,7 +116,7 @@ export class EnemyEvolution {
      * Tier 1: Stage-based base stats (createStageGenome sets quality floor)
      * Tier 2: Adaptive counter-traits from player history (resistance boosts)
      */
-    spawnEnemy(stageLevel: number): { genome: Genome; generation: number; species: EnemySpecies } {
+    spawnEnemy(stageLevel: number, rng: Rng = Math.random): EnemySpawn {
         let baseGenome: Genome;
         let gen = 1;
 
@@ -59,14 +125,14 @@ export class EnemyEvolution {
             this.generationCount = Math.max(...this.bestAncestors.map(p => p.generation)) + 1;
             gen = this.generationCount;
 
-            const p1 = GeneticEngine.selectParent(this.bestAncestors);
-            const p2 = GeneticEngine.selectParent(this.bestAncestors);
+            const p1 = GeneticEngine.selectParent(this.bestAncestors, rng);
+            const p2 = GeneticEngine.selectParent(this.bestAncestors, rng);
 
-            let child = GeneticEngine.crossover(p1.genome, p2.genome);
-            child = GeneticEngine.mutate(child, 0.12 + stageLevel * 0.01);
+            let child = GeneticEngine.crossover(p1.genome, p2.genome, rng);
+            child = GeneticEngine.mutate(child, 0.12 + stageLevel * 0.01, 1, [], rng);
 
             // Apply stage floor: pull weak genes up to stage minimum
-            const stageFloor = createStageGenome(stageLevel);
+            const stageFloor = createStageGenome(stageLevel, undefined, rng);
             child = child.map((g, i) => Math.max(g, stageFloor[i] * 0.7));
 
             // Tier 2: Adaptive counter-resistance from player history
@@ -74,11 +140,12 @@ export class EnemyEvolution {
             baseGenome = child;
         } else {
             // No history: pure stage-based genome
-            baseGenome = createStageGenome(stageLevel);
+            baseGenome = createStageGenome(stageLevel, undefined, rng);
         }
+        baseGenome = this.applyCounterElement(baseGenome, COUNTER_ELEMENT_CHANCE, rng);
 
         // Speciation roll
-        const roll = Math.random();
+        const roll = rng();
         let species: EnemySpecies = 'standard';
 
         if (roll < 0.3) {
@@ -98,46 +165,36 @@ export class EnemyEvolution {
             baseGenome[5] = clampGene(baseGenome[5] + 0.3);
         }
 
-        return { genome: baseGenome, generation: gen, species };
+        return {
+            genome: baseGenome,
+            generation: gen,
+            species,
+            traits: this.rollEnemyTraits(stageLevel, species, rng),
+            mastery: Math.min(100, Math.floor(stageLevel * 0.5)),
+        };
     }
 
-    /** Named boss data per stage tier */
-    private static readonly BOSS_DATA: Record<number, { name: string; title: string }> = {
-        10: { name: '番犬型試作体ケルベロス', title: '目覚め' },
-        20: { name: '深海型適応体リヴァイアサン', title: '休息' },
-        30: { name: '暴食型突然変異体フェンリル', title: '熱' },
-        40: { name: '空戦型制圧体バハムート', title: 'ソルジャー' },
-        50: { name: '循環型巨大体ヨルムンガンド', title: 'チーム' },
-        60: { name: '焦土型殲滅体スルト', title: '静寂' },
-        70: { name: '原初型支配体ティアマト', title: 'ノイズ' },
-        80: { name: '裁定型禁忌体アヌビス', title: '怪物' },
-        90: { name: '超越型観測体メタトロン', title: 'キメラ' },
-        100: { name: '開発責任者 ミナト', title: '最終戦' },
-    };
-
     /** Spawn a boss enemy — appears every 10 stages.
-     *  Named boss with 2.5× all stats (3× for Stage 100) + extreme counter-resistance. */
-    spawnBoss(stageLevel: number): {
-        genome: Genome; generation: number; species: EnemySpecies;
-        bossName?: string; bossTitle?: string;
-    } {
+     *  Named boss with 2.5× all stats (3× for Stage 100) + extreme counter-resistance.
+     *  Its phases / signature skills come from BOSS_DEFINITIONS (see BossScripts). */
+    spawnBoss(stageLevel: number, rng: Rng = Math.random): EnemySpawn {
         let baseGenome: Genome;
         let gen = 1;
 
         if (this.bestAncestors.length >= 2) {
             this.generationCount = Math.max(...this.bestAncestors.map(p => p.generation)) + 1;
             gen = this.generationCount;
-            const p1 = GeneticEngine.selectParent(this.bestAncestors);
-            const p2 = GeneticEngine.selectParent(this.bestAncestors);
-            let child = GeneticEngine.crossover(p1.genome, p2.genome);
-            child = GeneticEngine.mutate(child, 0.05);
+            const p1 = GeneticEngine.selectParent(this.bestAncestors, rng);
+            const p2 = GeneticEngine.selectParent(this.bestAncestors, rng);
+            let child = GeneticEngine.crossover(p1.genome, p2.genome, rng);
+            child = GeneticEngine.mutate(child, 0.05, 1, [], rng);
 
             // Stage quality floor
-            const stageFloor = createStageGenome(stageLevel);
+            const stageFloor = createStageGenome(stageLevel, undefined, rng);
             child = child.map((g, i) => Math.max(g, stageFloor[i] * 0.8));
             baseGenome = child;
         } else {
-            baseGenome = createStageGenome(stageLevel);
+            baseGenome = createStageGenome(stageLevel, undefined, rng);
         }
 
         // Stage 100 (final boss): 3× multiplier; others: 2.5×
@@ -154,17 +211,67 @@ export class EnemyEvolution {
         if (dominant) {
             baseGenome = boostResistance(baseGenome, dominant as 'Fire' | 'Ice' | 'Lightning', 0.4);
         }
-
-        // Named boss lookup
-        const bossInfo = EnemyEvolution.BOSS_DATA[stageLevel];
+        baseGenome = this.applyCounterElement(baseGenome, 1, rng);
 
         return {
             genome: baseGenome,
             generation: gen,
             species: 'boss',
-            bossName: bossInfo?.name,
-            bossTitle: bossInfo?.title,
+            traits: this.rollEnemyTraits(stageLevel, 'boss', rng),
+            mastery: Math.min(100, stageLevel),
+            boss: getBossDefinition(stageLevel),
+        };
+    }
+
+    /**
+     * Roll enemy traits from TRAIT_LIBRARY (no genetic diseases).
+     * Count: bosses get 1 + 1 per 40 stages; others roll 1.5%/stage (max 60%),
+     * plus a second 25% roll from stage 40.
+     * Rarer ranks gain weight with the stage; Legendary only from stage 50.
+     * Species favour traits that boost their stats; bosses favour mutations.
+     */
+    private rollEnemyTraits(stageLevel: number, species: EnemySpecies, rng: Rng): TraitInstance[] {
+        let count: number;
+        if (species === 'boss') {
+            count = 1 + Math.floor(stageLevel / 40);
+        } else {
+            count = rng() < Math.min(0.6, stageLevel * 0.015) ? 1 : 0;
+            if (count > 0 && stageLevel >= 40 && rng() < 0.25) count++;
+        }
+
+        const rankWeight: Record<TraitRank, number> = {
+            Common: 50,
+            Rare: 20 + stageLevel * 0.3,
+            Epic: 5 + stageLevel * 0.3,
+            Legendary: stageLevel >= 50 ? stageLevel * 0.05 : 0,
         };
+        const focus = SPECIES_TRAIT_FOCUS[species];
+        const weightOf = (def: TraitDefinition): number => {
+            let w = rankWeight[def.rank];
+            if (Object.keys(def.bonuses).some(k => focus.includes(k))) w *= 3;
+            if (species === 'boss' && def.category === 'mutation') w *= 3;
+            return w;
+        };
+
+        const traits: TraitInstance[] = [];
+        let capacity = 0;
+        let pool = TRAIT_LIBRARY.filter(t => t.category !== 'genetic_disease');
+        while (traits.length < Math.min(count, TRAIT_CONFIG.maxSlots)) {
+            pool = pool.filter(t => capacity + TRAIT_CONFIG.rankCapacity[t.rank] <= TRAIT_CONFIG.capacityLimit);
+            const weights = pool.map(weightOf);
+            const total = weights.reduce((a, b) => a + b, 0);
+            if (total <= 0) break;
+            let roll = rng() * total;
+            let def = pool[pool.length - 1];
+            for (let i = 0; i < pool.length; i++) {
+                roll -= weights[i];
+                if (roll <= 0) { def = pool[i]; break; }
+            }
+            traits.push({ defId: def.id, rank: def.rank, source: 'mutation' });
+            capacity += TRAIT_CONFIG.rankCapacity[def.rank];
+            pool = pool.filter(t => t !== def);
+        }
+        return traits;
     }
 
     /** Apply resistance boost against player's dominant element */
@@ -174,6 +281,15 @@ export class EnemyEvolution {
         return boostResistance(genome, dominant as 'Fire' | 'Ice' | 'Lightning', 0.15);
     }
 
+    /** Switch the element gene to the one that beats the player's dominant element (see BalanceConfig battle.elementAffinity) */
+    private applyCounterElement(genome: Genome, chance: number, rng: Rng): Genome {
+        const dominant = this.getDominantPlayerElement();
+        if (!dominant || rng() >= chance) return genome;
+        const g = [...genome];
+        g[2] = ELEMENT_GENE[ItemDecoder.getCounterElement(dominant as ElementType)];
+        return g;
+    }
+
     /** Generate a counter-report at end of stage */
     generateCounterReport(stageLevel: number): CounterReport {
         const dominant = this.getDominantPlayerElement();
@@ -191,6 +307,12 @@ export class EnemyEvolution {
             boosts.push({ gene: '雷撃耐性', boost: 20 });
         }
 
+        // Element affinity: shift towards the element the dominant one is weak against
+        if (dominant) {
+            const counter = ItemDecoder.getCounterElement(dominant as ElementType);
+            adaptations.push(`弱点を突く${ItemDecoder.getElementLabel(counter)}属性個体が増加`);
+        }
+
         // Additional stage-based adaptations
         if (stageLevel >= 3) {
             adaptations.push('防御本能が向上');
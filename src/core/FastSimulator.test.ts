@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BALANCE, defineBalance } from './BalanceConfig';
+import { getBossDefinition } from './BossScripts';
+import { EnemyEvolution } from './EnemyEvolution';
+import { FastSimulator } from './FastSimulator';
+import type { Item } from './GeneticEngine';
+import { createRng } from './mathUtils';
+import { runSimulationJob } from './SimulationProtocol';
+import { StageRunner } from './StageRunner';
+import type { BattleResult } from './TextBattleEngine';
+
+const parent = (id: string, genome: number[]): Item => ({ id, genome, fitness: 0, generation: 3 });
+const parentA = parent('chimera_a', [0.8, 0.6, 0.1, 0.65, 0.5, 0.6, 0.3, 0.4, 0.5, 0.3]);
+const parentB = parent('chimera_b', [0.6, 0.7, 0.5, 0.8, 0.7, 0.4, 0.5, 0.3, 0.2, 0.6]);
+
+describe('simulateOffspring', () => {
+    it('reproduces the whole forecast, bloodline titles included, for the same seed', () => {
+        const forecast = () => FastSimulator.simulateOffspring(parentA, parentB, 3, 12, 4, createRng(2024));
+        const first = forecast();
+        expect(Object.keys(first.titleCounts).length).toBeGreaterThan(0);
+        expect(forecast()).toEqual(first);
+    });
+
+    it('matches the chunked variant for the same seed', async () => {
+        const sync = FastSimulator.simulateOffspring(parentA, parentB, 3, 12, 4, createRng(7));
+        const chunked = await FastSimulator.simulateOffspringAsync(parentA, parentB, 3, 12, 4, createRng(7));
+        expect(chunked).toEqual(sync);
+    });
+});
+
+describe('simulateStage', () => {
+    const weapon = { genome: parentA.genome };
+
+    it('runs every wave under the given balance profile', () => {
+        const rushed = defineBalance({ battle: { maxTime: 1 } });
+        const result = FastSimulator.simulateStage(weapon, 1, 10, createRng(5), rushed, { maxWaves: 2 });
+        expect(result.clears).toBe(0);
+        expect(result.timeoutRate).toBe(1);
+        expect(FastSimulator.simulateStage(weapon, 1, 10, createRng(5)).timeoutRate).toBeLessThan(1);
+    });
+});
+
+describe('boss fights', () => {
+    it('give a boss the stage time budget, so its enrage timer can fire', () => {
+        // Two tanks that outlast the 45s per-enemy budget
+        const tank = { genome: [0.02, 0.5, 0.5, 0.98, 0.98, 0.9, 0.1, 0.9, 0.9, 0.5] };
+        const boss = { genome: [0.02, 0.5, 0.15, 0.98, 0.98, 0.9, 0.1, 0.9, 0.9, 0.5], boss: getBossDefinition(10) };
+        const enrageTime = boss.boss?.enrage?.time ?? Infinity;
+        expect(enrageTime).toBeGreaterThan(DEFAULT_BALANCE.battle.maxTime);
+
+        const result: BattleResult = FastSimulator['fight'](tank, boss, 10, createRng(3), DEFAULT_BALANCE);
+        expect(result.logs.some(l => l.message.includes('激昂'))).toBe(true);
+        expect(result.logs[result.logs.length - 1].time).toBe(DEFAULT_BALANCE.battle.maxTime * StageRunner.getWaveSize(10, 1));
+
+        // Regular enemies keep the per-enemy budget
+        const regular: BattleResult = FastSimulator['fight'](tank, { genome: boss.genome }, 10, createRng(3), DEFAULT_BALANCE);
+        expect(regular.logs[regular.logs.length - 1].time).toBe(DEFAULT_BALANCE.battle.maxTime);
+    });
+});
+
+describe('simulateStage enemy history', () => {
+    const weapon = { genome: parentA.genome };
+    const seasoned = (): EnemyEvolution => {
+        const evolution = new EnemyEvolution();
+        evolution.logPlayerAttack('Fire', 500);
+        [0.6, 0.7, 0.8].forEach((g, i) => evolution.logEnemyDeath(
+            { id: `enemy_${i}`, genome: Array.from({ length: 10 }, () => g), fitness: 0, generation: i + 2 }, 20, 60,
+        ));
+        return evolution;
+    };
+
+    it('starts every run from the given evolution without changing it', () => {
+        const evolution = seasoned();
+        const before = evolution.toSnapshot();
+        const first = FastSimulator.simulateStage(weapon, 3, 10, createRng(9), DEFAULT_BALANCE, { evolution });
+        expect(evolution.toSnapshot()).toEqual(before);
+        expect(FastSimulator.simulateStage(weapon, 3, 10, createRng(9), DEFAULT_BALANCE, { evolution })).toEqual(first);
+        expect(FastSimulator.simulateStage(weapon, 3, 10, createRng(9))).not.toEqual(first);
+    });
+
+    it('rebuilds the history sent with a stage job', async () => {
+        const evolution = seasoned();
+        const direct = FastSimulator.simulateStage(weapon, 3, 10, createRng(9), DEFAULT_BALANCE, { evolution });
+        const job = await runSimulationJob({ kind: 'stage', weapon, stageLevel: 3, runs: 10, seed: 9, evolution: evolution.toSnapshot() });
+        expect(job).toEqual(direct);
+    });
+});
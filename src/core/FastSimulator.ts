@@ -1,10 +1,39 @@
 /**
  * Chimera Gear: Text Edition — High-Speed Simulator
- * Runs N battles in sub-second time, returns aggregate stats
+ * Runs N battles in sub-second time, returns aggregate stats.
+ * Battles use the same inputs as a stage fight: weapon traits (diseases
+ * included), mastery, carried HP, enemy traits / mastery / boss script, and
+ * the balance profile's per-enemy time budget (a whole wave's budget for bosses).
  */
 
-import type { Genome } from './GeneticEngine';
+import { GeneticEngine, type Genome, type Item } from './GeneticEngine';
 import { TextBattleEngine, type BattleResult } from './TextBattleEngine';
+import { ItemDecoder } from './ItemDecoder';
+import { PedigreeSystem } from './PedigreeSystem';
+import { isDiseaseTrait, type TraitInstance } from './TraitSystem';
+import type { BossDefinition } from './BossScripts';
+import type { WeaponCarry, WeaponWaveState } from './WaveState';
+import { percentile, wilsonInterval, type Rng } from './mathUtils';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
+import { EnemyEvolution, type EnemyEvolutionSnapshot, type EnemySpawn, type EnemySpecies } from './EnemyEvolution';
+import { StageRunner } from './StageRunner';
+import { WaveStateManager } from './WaveState';
+
+/** Weapon side of a simulated battle — an inventory Item fits */
+export interface SimulatedWeapon {
+    genome: Genome;
+    traits?: TraitInstance[];      // incl. genetic diseases
+    mastery?: number;
+    carry?: WeaponCarry | null;    // starting HP + max HP modifier (default: full HP)
+}
+
+/** Enemy side of a fixed-enemy simulation — an EnemySpawn fits */
+export interface SimulatedEnemy {
+    genome: Genome;
+    traits?: TraitInstance[];
+    mastery?: number;
+    boss?: BossDefinition | null;
+}
 
 export interface SimulationResult {
     totalBattles: number;
@@ -15,59 +44,315 @@ export interface SimulationResult {
     avgDamageRatio: number;    // dealt/taken
     avgAdaptation: number;     // 0.0 ~ 1.0
     avgHpRemaining: number;    // weapon HP remaining (wins only)
+    avgCritRate: number;       // weapon crits / landed attacks (telemetry)
+    avgLowHpTime: number;      // seconds the weapon spent below 30% HP (telemetry)
     bestKillTime: number;
     worstKillTime: number;
     detailedResults?: BattleResult[];
 }
 
+/** Win rate of the battles against one enemy species */
+export interface SpeciesBreakdown {
+    battles: number;
+    wins: number;
+    winRate: number;
+    winRateCI: [number, number];   // 95% Wilson interval
+    avgKillTime: number;           // seconds (wins only, Infinity if none)
+}
+
+/** Kill-time distribution over won battles (seconds, 0 if no wins) */
+export interface KillTimePercentiles {
+    p10: number;
+    p25: number;
+    p50: number;
+    p75: number;
+    p90: number;
+}
+
+/** simulatePool result — every battle fights a freshly sampled stage enemy */
+export interface PoolSimulationResult extends SimulationResult {
+    stageLevel: number;
+    winRateCI: [number, number];   // 95% Wilson interval
+    bySpecies: Partial<Record<EnemySpecies, SpeciesBreakdown>>;
+    killTimePercentiles: KillTimePercentiles;
+}
+
+/** Where simulatePool draws its enemies from */
+export interface EnemyPoolOptions {
+    evolution?: EnemyEvolution;    // spawn source (default: a fresh one — stage-based genomes, no history)
+    maxWaves?: number;             // waves per stage, sets the boss odds on boss stages (default 3)
+}
+
+/** simulateStage result — whole stage runs: waves, HP carry-over, wave heals, boss */
+export interface StageSimulationResult {
+    stageLevel: number;
+    maxWaves: number;
+    runs: number;
+    clears: number;
+    clearRate: number;             // 0.0 ~ 1.0
+    clearRateCI: [number, number]; // 95% Wilson interval
+    stageEnemies: number;          // enemies in a full stage
+    avgKills: number;              // expected kills per run
+    avgHpRemaining: number;        // weapon HP after the last wave (cleared runs only)
+    failuresByWave: number[];      // share of runs lost in each wave (index = wave - 1)
+    timeoutRate: number;           // share of runs lost to the time limit with HP left
+    deadliestWave: number | null;  // wave that ends the most runs (null if none failed)
+}
+
+/** Stage structure for simulateStage */
+export interface StageSimulationOptions {
+    maxWaves?: number;             // waves per stage (default 3)
+    evolution?: EnemyEvolution;    // enemy history every run starts from (default: none — stage-based genomes)
+}
+
+/** simulateOffspring result — children bred through the real GeneticEngine.breed pipeline */
+export interface OffspringForecast {
+    samples: number;                        // children bred
+    battlesPerChild: number;
+    rankCounts: Record<string, number>;     // child rank (ItemDecoder.getRating) → children
+    traitChances: Record<string, number>;   // trait defId → share of children carrying it (diseases included)
+    diseaseChance: number;                  // share of children with at least one disease
+    titleCounts: Record<string, number>;    // bloodline title → children (titles hash the child id, drawn from `rng`)
+    winRateHistogram: number[];             // children per 10% win-rate bucket (index 0 = 0–10%, last = 90–100%)
+    winRatePercentiles: { p10: number; p50: number; p90: number };   // over children's win rates
+    pool: PoolSimulationResult;             // every battle of every child against the stage pool
+}
+
+/** Breeding inputs, as passed to GeneticEngine.breed */
+export interface BreedOptions {
+    mutationRate?: number;         // default 0.06 (the lab's rate)
+    lockedGenes?: number[];
+}
+
+export interface CompareResult {
+    resultA: SimulationResult;
+    resultB: SimulationResult;
+    winner: 'A' | 'B' | 'tie';
+}
+
+/** Progress + cancellation hooks for the chunked (async) runs */
+export interface SimulationControl {
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+    chunkSize?: number;        // battles between yields (default 10)
+}
+
+/** Running sums over a batch of battles */
+interface SimulationTally {
+    wins: number;
+    totalKillTimeWins: number;
+    totalDamageRatio: number;
+    totalAdaptation: number;
+    totalHpRemainingWins: number;
+    totalCritRate: number;
+    totalLowHpTime: number;
+    bestKillTime: number;
+    worstKillTime: number;
+}
+
+/** simulatePool extras: per-species sums and every winning kill time */
+interface PoolTally extends SimulationTally {
+    species: Partial<Record<EnemySpecies, { battles: number; wins: number; killTimeWins: number }>>;
+    killTimes: number[];
+}
+
+/** simulateStage sums over runs */
+interface StageTally {
+    clears: number;
+    kills: number;
+    hpRemainingClears: number;
+    failuresByWave: number[];
+    timeouts: number;
+}
+
+/** simulateOffspring sums over children (battles go into `pool`) */
+interface OffspringTally {
+    ranks: Record<string, number>;
+    traits: Record<string, number>;
+    diseased: number;
+    titles: Record<string, number>;
+    winRates: number[];
+    pool: PoolTally;
+}
+
+/** Samples one enemy of the pool */
+type EnemyDraw = (rng: Rng) => EnemySpawn;
+
+const DEFAULT_CHUNK_SIZE = 10;
+const DEFAULT_MUTATION_RATE = 0.06;
+const WIN_RATE_BUCKETS = 10;
+const DEFAULT_MAX_WAVES = 3;
+
 export class FastSimulator {
     /**
-     * Run N battles between a weapon and enemy genome.
+     * Run N battles between a weapon and a fixed enemy.
      * No logs are stored to maximize speed.
+     * Pass a `balance` profile to measure the same matchup under alternative tuning.
      */
     static simulate(
-        weaponGenome: Genome,
-        enemyGenome: Genome,
+        weapon: SimulatedWeapon,
+        enemy: SimulatedEnemy,
         stageLevel: number = 1,
-        battleCount: number = 100
+        battleCount: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
     ): SimulationResult {
-        let wins = 0;
-        let totalKillTimeWins = 0;
-        let totalDamageRatio = 0;
-        let totalAdaptation = 0;
-        let totalHpRemainingWins = 0;
-        let bestKillTime = Infinity;
-        let worstKillTime = 0;
+        const tally = this.createTally();
+        for (let i = 0; i < battleCount; i++) {
+            this.addResult(tally, this.fight(weapon, enemy, stageLevel, rng, balance));
+        }
+        return this.summarize(tally, battleCount);
+    }
+
+    /**
+     * Same as simulate, but yields to the event loop every `chunkSize` battles so
+     * progress can be reported and `signal` can cancel (rejects with an AbortError).
+     * With the same rng it produces the same result as simulate.
+     */
+    static async simulateAsync(
+        weapon: SimulatedWeapon,
+        enemy: SimulatedEnemy,
+        stageLevel: number = 1,
+        battleCount: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        control: SimulationControl = {},
+    ): Promise<SimulationResult> {
+        const tally = this.createTally();
+        await this.runChunked(battleCount, control, () => {
+            this.addResult(tally, this.fight(weapon, enemy, stageLevel, rng, balance));
+        });
+        return this.summarize(tally, battleCount);
+    }
 
+    /**
+     * Monte Carlo over the stage's enemy pool: every battle samples a fresh enemy
+     * from EnemyEvolution — species roll, traits, mastery, and on boss stages the
+     * boss at its share of the stage's spawns. Reports the win rate with a 95%
+     * confidence interval, per-species win rates and kill-time percentiles.
+     */
+    static simulatePool(
+        weapon: SimulatedWeapon,
+        stageLevel: number = 1,
+        battleCount: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        pool: EnemyPoolOptions = {},
+    ): PoolSimulationResult {
+        const tally = this.createPoolTally();
+        const draw = this.createEnemyDraw(stageLevel, pool);
         for (let i = 0; i < battleCount; i++) {
-            const result = TextBattleEngine.runBattle(
-                weaponGenome, enemyGenome, stageLevel, 30
-            );
-
-            if (result.won) {
-                wins++;
-                totalKillTimeWins += result.killTime;
-                totalHpRemainingWins += result.weaponHpRemaining;
-                if (result.killTime < bestKillTime) bestKillTime = result.killTime;
-                if (result.killTime > worstKillTime) worstKillTime = result.killTime;
-            }
+            this.addPoolBattle(tally, weapon, stageLevel, draw, rng, balance);
+        }
+        return this.summarizePool(tally, battleCount, stageLevel);
+    }
 
-            totalDamageRatio += result.damageRatio;
-            totalAdaptation += result.adaptationScore;
+    /** Chunked simulatePool with progress + cancellation (see simulateAsync) */
+    static async simulatePoolAsync(
+        weapon: SimulatedWeapon,
+        stageLevel: number = 1,
+        battleCount: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        pool: EnemyPoolOptions = {},
+        control: SimulationControl = {},
+    ): Promise<PoolSimulationResult> {
+        const tally = this.createPoolTally();
+        const draw = this.createEnemyDraw(stageLevel, pool);
+        await this.runChunked(battleCount, control, () => {
+            this.addPoolBattle(tally, weapon, stageLevel, draw, rng, balance);
+        });
+        return this.summarizePool(tally, battleCount, stageLevel);
+    }
+
+    /**
+     * Monte Carlo over whole stages via StageRunner: every wave fights its full
+     * enemy group, HP carries over, won waves heal into the next and boss stages
+     * end with their boss. Each run starts from its own copy of `options.evolution`
+     * (ancestors, resistance boosts and counter elements carry over; the original
+     * is left untouched); every wave plays, scores and heals under `balance`.
+     * `weapon.carry` starts the run damaged; reports the clear rate, expected
+     * kills and which wave ends the failed runs.
+     */
+    static simulateStage(
+        weapon: SimulatedWeapon,
+        stageLevel: number = 1,
+        runs: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        options: StageSimulationOptions = {},
+    ): StageSimulationResult {
+        const maxWaves = options.maxWaves ?? DEFAULT_MAX_WAVES;
+        const history = options.evolution?.toSnapshot() ?? null;
+        const tally = this.createStageTally(maxWaves);
+        for (let i = 0; i < runs; i++) {
+            this.addStageRun(tally, weapon, stageLevel, maxWaves, history, rng, balance);
         }
+        return this.summarizeStage(tally, runs, stageLevel, maxWaves);
+    }
 
-        return {
-            totalBattles: battleCount,
-            wins,
-            losses: battleCount - wins,
-            winRate: wins / battleCount,
-            avgKillTime: wins > 0 ? totalKillTimeWins / wins : Infinity,
-            avgDamageRatio: totalDamageRatio / battleCount,
-            avgAdaptation: totalAdaptation / battleCount,
-            avgHpRemaining: wins > 0 ? totalHpRemainingWins / wins : 0,
-            bestKillTime: bestKillTime === Infinity ? 0 : bestKillTime,
-            worstKillTime,
-        };
+    /** Chunked simulateStage — progress counts runs (see simulateAsync) */
+    static async simulateStageAsync(
+        weapon: SimulatedWeapon,
+        stageLevel: number = 1,
+        runs: number = 100,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        options: StageSimulationOptions = {},
+        control: SimulationControl = {},
+    ): Promise<StageSimulationResult> {
+        const maxWaves = options.maxWaves ?? DEFAULT_MAX_WAVES;
+        const history = options.evolution?.toSnapshot() ?? null;
+        const tally = this.createStageTally(maxWaves);
+        await this.runChunked(runs, control, () => {
+            this.addStageRun(tally, weapon, stageLevel, maxWaves, history, rng, balance);
+        });
+        return this.summarizeStage(tally, runs, stageLevel, maxWaves);
+    }
+
+    /**
+     * Breeding forecast: breed `samples` children through GeneticEngine.breed
+     * (mutation, entropy, inbreeding, soft cap, trait inheritance, diseases) and
+     * fight each one `battlesPerChild` times against the stage enemy pool.
+     * Reports the distribution of rank, traits, diseases, bloodline titles and
+     * per-child win rates.
+     */
+    static simulateOffspring(
+        parentA: Item,
+        parentB: Item,
+        stageLevel: number = 1,
+        samples: number = 30,
+        battlesPerChild: number = 20,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        breed: BreedOptions = {},
+    ): OffspringForecast {
+        const tally = this.createOffspringTally();
+        const draw = this.createEnemyDraw(stageLevel, {});
+        for (let i = 0; i < samples; i++) {
+            this.addOffspring(tally, parentA, parentB, stageLevel, battlesPerChild, draw, rng, balance, breed);
+        }
+        return this.summarizeOffspring(tally, samples, battlesPerChild, stageLevel);
+    }
+
+    /** Chunked simulateOffspring — progress counts children, yielding after each by default */
+    static async simulateOffspringAsync(
+        parentA: Item,
+        parentB: Item,
+        stageLevel: number = 1,
+        samples: number = 30,
+        battlesPerChild: number = 20,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        breed: BreedOptions = {},
+        control: SimulationControl = {},
+    ): Promise<OffspringForecast> {
+        const tally = this.createOffspringTally();
+        const draw = this.createEnemyDraw(stageLevel, {});
+        await this.runChunked(samples, { ...control, chunkSize: control.chunkSize ?? 1 }, () => {
+            this.addOffspring(tally, parentA, parentB, stageLevel, battlesPerChild, draw, rng, balance, breed);
+        });
+        return this.summarizeOffspring(tally, samples, battlesPerChild, stageLevel);
     }
 
     /**
@@ -75,22 +360,330 @@ export class FastSimulator {
      * Returns which weapon performs better.
      */
     static compare(
-        weaponA: Genome,
-        weaponB: Genome,
-        enemyGenome: Genome,
+        weaponA: SimulatedWeapon,
+        weaponB: SimulatedWeapon,
+        enemy: SimulatedEnemy,
         stageLevel: number = 1,
-        battleCount: number = 50
-    ): { resultA: SimulationResult; resultB: SimulationResult; winner: 'A' | 'B' | 'tie' } {
-        const resultA = this.simulate(weaponA, enemyGenome, stageLevel, battleCount);
-        const resultB = this.simulate(weaponB, enemyGenome, stageLevel, battleCount);
+        battleCount: number = 50,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+    ): CompareResult {
+        const resultA = this.simulate(weaponA, enemy, stageLevel, battleCount, rng, balance);
+        const resultB = this.simulate(weaponB, enemy, stageLevel, battleCount, rng, balance);
+        return { resultA, resultB, winner: this.pickWinner(resultA, resultB) };
+    }
+
+    /** Chunked compare — progress counts both candidates' battles (2 × battleCount) */
+    static async compareAsync(
+        weaponA: SimulatedWeapon,
+        weaponB: SimulatedWeapon,
+        enemy: SimulatedEnemy,
+        stageLevel: number = 1,
+        battleCount: number = 50,
+        rng: Rng = Math.random,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+        control: SimulationControl = {},
+    ): Promise<CompareResult> {
+        const total = battleCount * 2;
+        const resultA = await this.simulateAsync(weaponA, enemy, stageLevel, battleCount, rng, balance, {
+            ...control,
+            onProgress: done => control.onProgress?.(done, total),
+        });
+        const resultB = await this.simulateAsync(weaponB, enemy, stageLevel, battleCount, rng, balance, {
+            ...control,
+            onProgress: done => control.onProgress?.(battleCount + done, total),
+        });
+        return { resultA, resultB, winner: this.pickWinner(resultA, resultB) };
+    }
+
+    // ========== AGGREGATION ==========
+
+    private static createTally(): SimulationTally {
+        return {
+            wins: 0,
+            totalKillTimeWins: 0,
+            totalDamageRatio: 0,
+            totalAdaptation: 0,
+            totalHpRemainingWins: 0,
+            totalCritRate: 0,
+            totalLowHpTime: 0,
+            bestKillTime: Infinity,
+            worstKillTime: 0,
+        };
+    }
 
-        let winner: 'A' | 'B' | 'tie' = 'tie';
+    /**
+     * One quiet battle on the per-enemy time budget of a real stage battle.
+     * A boss gets the whole budget of the first wave it leads in StageRunner
+     * (balance maxTime × wave size), so its enrage timer can fire as it does in a stage.
+     */
+    private static fight(weapon: SimulatedWeapon, enemy: SimulatedEnemy, stageLevel: number, rng: Rng, balance: BalanceConfig): BattleResult {
+        return TextBattleEngine.runBattle(weapon.genome, enemy.genome, {
+            stageLevel,
+            maxTime: enemy.boss ? balance.battle.maxTime * StageRunner.getWaveSize(stageLevel, 1) : undefined,
+            weaponTraits: weapon.traits,
+            carry: weapon.carry,
+            weaponMastery: weapon.mastery,
+            enemyTraits: enemy.traits,
+            enemyMastery: enemy.mastery,
+            enemyBoss: enemy.boss,
+            rng,
+            balance,
+            quiet: true,
+        });
+    }
+
+    private static addResult(tally: SimulationTally, result: BattleResult): void {
+        if (result.won) {
+            tally.wins++;
+            tally.totalKillTimeWins += result.killTime;
+            tally.totalHpRemainingWins += result.weaponHpRemaining;
+            if (result.killTime < tally.bestKillTime) tally.bestKillTime = result.killTime;
+            if (result.killTime > tally.worstKillTime) tally.worstKillTime = result.killTime;
+        }
+
+        tally.totalDamageRatio += result.damageRatio;
+        tally.totalAdaptation += result.adaptationScore;
+        tally.totalCritRate += result.telemetry.weapon.critRate;
+        tally.totalLowHpTime += result.telemetry.weapon.lowHpTime;
+    }
+
+    private static summarize(tally: SimulationTally, battleCount: number): SimulationResult {
+        const { wins } = tally;
+        return {
+            totalBattles: battleCount,
+            wins,
+            losses: battleCount - wins,
+            winRate: wins / battleCount,
+            avgKillTime: wins > 0 ? tally.totalKillTimeWins / wins : Infinity,
+            avgDamageRatio: tally.totalDamageRatio / battleCount,
+            avgAdaptation: tally.totalAdaptation / battleCount,
+            avgHpRemaining: wins > 0 ? tally.totalHpRemainingWins / wins : 0,
+            avgCritRate: tally.totalCritRate / battleCount,
+            avgLowHpTime: tally.totalLowHpTime / battleCount,
+            bestKillTime: tally.bestKillTime === Infinity ? 0 : tally.bestKillTime,
+            worstKillTime: tally.worstKillTime,
+        };
+    }
+
+    // ========== ENEMY POOL ==========
+
+    private static createPoolTally(): PoolTally {
+        return { ...this.createTally(), species: {}, killTimes: [] };
+    }
+
+    /** Enemy sampler for one stage: boss at its spawn share, regular spawns otherwise */
+    private static createEnemyDraw(stageLevel: number, pool: EnemyPoolOptions): EnemyDraw {
+        const evolution = pool.evolution ?? new EnemyEvolution();
+        const bossShare = StageRunner.getBossShare(stageLevel, pool.maxWaves ?? DEFAULT_MAX_WAVES);
+        return (rng: Rng) => bossShare > 0 && rng() < bossShare
+            ? evolution.spawnBoss(stageLevel, rng)
+            : evolution.spawnEnemy(stageLevel, rng);
+    }
+
+    /** One battle against a sampled enemy */
+    private static addPoolBattle(
+        tally: PoolTally,
+        weapon: SimulatedWeapon,
+        stageLevel: number,
+        draw: EnemyDraw,
+        rng: Rng,
+        balance: BalanceConfig,
+    ): void {
+        const spawn = draw(rng);
+        const result = this.fight(weapon, spawn, stageLevel, rng, balance);
+        this.addResult(tally, result);
+
+        const species = tally.species[spawn.species] ??= { battles: 0, wins: 0, killTimeWins: 0 };
+        species.battles++;
+        if (result.won) {
+            species.wins++;
+            species.killTimeWins += result.killTime;
+            tally.killTimes.push(result.killTime);
+        }
+    }
+
+    private static summarizePool(tally: PoolTally, battleCount: number, stageLevel: number): PoolSimulationResult {
+        const bySpecies: PoolSimulationResult['bySpecies'] = {};
+        for (const [name, s] of Object.entries(tally.species) as [EnemySpecies, NonNullable<PoolTally['species'][EnemySpecies]>][]) {
+            bySpecies[name] = {
+                battles: s.battles,
+                wins: s.wins,
+                winRate: s.wins / s.battles,
+                winRateCI: wilsonInterval(s.wins, s.battles),
+                avgKillTime: s.wins > 0 ? s.killTimeWins / s.wins : Infinity,
+            };
+        }
+        const killTimes = [...tally.killTimes].sort((a, b) => a - b);
+        return {
+            ...this.summarize(tally, battleCount),
+            stageLevel,
+            winRateCI: wilsonInterval(tally.wins, battleCount),
+            bySpecies,
+            killTimePercentiles: {
+                p10: percentile(killTimes, 0.1),
+                p25: percentile(killTimes, 0.25),
+                p50: percentile(killTimes, 0.5),
+                p75: percentile(killTimes, 0.75),
+                p90: percentile(killTimes, 0.9),
+            },
+        };
+    }
+
+    // ========== STAGE RUNS ==========
+
+    private static createStageTally(maxWaves: number): StageTally {
+        return { clears: 0, kills: 0, hpRemainingClears: 0, failuresByWave: new Array<number>(maxWaves).fill(0), timeouts: 0 };
+    }
+
+    private static addStageRun(
+        tally: StageTally,
+        weapon: SimulatedWeapon,
+        stageLevel: number,
+        maxWaves: number,
+        history: EnemyEvolutionSnapshot | null,
+        rng: Rng,
+        balance: BalanceConfig,
+    ): void {
+        const waveState: WeaponWaveState | undefined = weapon.carry
+            ? { ...WaveStateManager.create(), ...weapon.carry }
+            : undefined;
+        const outcome = StageRunner.runStage({
+            evolution: history ? EnemyEvolution.fromSnapshot(history) : new EnemyEvolution(),
+            weapon: { id: 'simulated', genome: weapon.genome, traits: weapon.traits, mastery: weapon.mastery },
+            stage: stageLevel,
+            maxWaves,
+            waveState,
+            rng,
+            balance,
+            quiet: true,
+        });
+        tally.kills += outcome.totalKills;
+
+        if (outcome.cleared) {
+            tally.clears++;
+            tally.hpRemainingClears += outcome.waveState.hp ?? 0;
+            return;
+        }
+        // A run that starts at 0 HP never fights — count it against wave 1
+        const last = outcome.waves[outcome.waves.length - 1];
+        tally.failuresByWave[(last?.wave ?? 1) - 1]++;
+        if (last && last.result.weaponHpRemaining > 0) tally.timeouts++;
+    }
+
+    private static summarizeStage(tally: StageTally, runs: number, stageLevel: number, maxWaves: number): StageSimulationResult {
+        let stageEnemies = 0;
+        for (let wave = 1; wave <= maxWaves; wave++) stageEnemies += StageRunner.getWaveSize(stageLevel, wave);
+
+        let deadliestWave: number | null = null;
+        tally.failuresByWave.forEach((count, i) => {
+            if (count > 0 && (deadliestWave === null || count > tally.failuresByWave[deadliestWave - 1])) deadliestWave = i + 1;
+        });
+
+        return {
+            stageLevel,
+            maxWaves,
+            runs,
+            clears: tally.clears,
+            clearRate: runs > 0 ? tally.clears / runs : 0,
+            clearRateCI: wilsonInterval(tally.clears, runs),
+            stageEnemies,
+            avgKills: runs > 0 ? tally.kills / runs : 0,
+            avgHpRemaining: tally.clears > 0 ? tally.hpRemainingClears / tally.clears : 0,
+            failuresByWave: tally.failuresByWave.map(count => runs > 0 ? count / runs : 0),
+            timeoutRate: runs > 0 ? tally.timeouts / runs : 0,
+            deadliestWave,
+        };
+    }
+
+    // ========== OFFSPRING ==========
+
+    private static createOffspringTally(): OffspringTally {
+        return { ranks: {}, traits: {}, diseased: 0, titles: {}, winRates: [], pool: this.createPoolTally() };
+    }
+
+    private static addOffspring(
+        tally: OffspringTally,
+        parentA: Item,
+        parentB: Item,
+        stageLevel: number,
+        battlesPerChild: number,
+        draw: EnemyDraw,
+        rng: Rng,
+        balance: BalanceConfig,
+        breed: BreedOptions,
+    ): void {
+        const child = GeneticEngine.breed(parentA, parentB, breed.mutationRate ?? DEFAULT_MUTATION_RATE, breed.lockedGenes ?? [], rng);
+        const traits = child.traits ?? [];
+
+        const rank = ItemDecoder.getRating(child, balance);
+        tally.ranks[rank] = (tally.ranks[rank] ?? 0) + 1;
+        for (const defId of new Set(traits.map(t => t.defId))) tally.traits[defId] = (tally.traits[defId] ?? 0) + 1;
+        if (traits.some(isDiseaseTrait)) tally.diseased++;
+        const title = PedigreeSystem.getBloodlineTitle(child);
+        tally.titles[title] = (tally.titles[title] ?? 0) + 1;
+
+        // A newborn fights with its inherited traits and no mastery
+        const winsBefore = tally.pool.wins;
+        for (let i = 0; i < battlesPerChild; i++) {
+            this.addPoolBattle(tally.pool, { genome: child.genome, traits }, stageLevel, draw, rng, balance);
+        }
+        tally.winRates.push(battlesPerChild > 0 ? (tally.pool.wins - winsBefore) / battlesPerChild : 0);
+    }
+
+    private static summarizeOffspring(tally: OffspringTally, samples: number, battlesPerChild: number, stageLevel: number): OffspringForecast {
+        const share = (count: number) => samples > 0 ? count / samples : 0;
+        const traitChances: Record<string, number> = {};
+        for (const [defId, count] of Object.entries(tally.traits)) traitChances[defId] = share(count);
+
+        const winRateHistogram = new Array<number>(WIN_RATE_BUCKETS).fill(0);
+        for (const rate of tally.winRates) winRateHistogram[Math.min(WIN_RATE_BUCKETS - 1, Math.floor(rate * WIN_RATE_BUCKETS))]++;
+        const winRates = [...tally.winRates].sort((a, b) => a - b);
+
+        return {
+            samples,
+            battlesPerChild,
+            rankCounts: tally.ranks,
+            traitChances,
+            diseaseChance: share(tally.diseased),
+            titleCounts: tally.titles,
+            winRateHistogram,
+            winRatePercentiles: {
+                p10: percentile(winRates, 0.1),
+                p50: percentile(winRates, 0.5),
+                p90: percentile(winRates, 0.9),
+            },
+            pool: this.summarizePool(tally.pool, samples * battlesPerChild, stageLevel),
+        };
+    }
+
+    // ========== HELPERS ==========
+
+    private static pickWinner(resultA: SimulationResult, resultB: SimulationResult): CompareResult['winner'] {
         const scoreA = resultA.winRate * 1000 + (resultA.avgKillTime > 0 ? 100 / resultA.avgKillTime : 0);
         const scoreB = resultB.winRate * 1000 + (resultB.avgKillTime > 0 ? 100 / resultB.avgKillTime : 0);
 
-        if (scoreA > scoreB + 5) winner = 'A';
-        else if (scoreB > scoreA + 5) winner = 'B';
+        if (scoreA > scoreB + 5) return 'A';
+        if (scoreB > scoreA + 5) return 'B';
+        return 'tie';
+    }
+
+    /** Run `step` `count` times, yielding + reporting progress every chunk */
+    private static async runChunked(count: number, control: SimulationControl, step: () => void): Promise<void> {
+        const chunkSize = Math.max(1, control.chunkSize ?? DEFAULT_CHUNK_SIZE);
+        for (let i = 0; i < count; i++) {
+            if (i % chunkSize === 0) {
+                await this.yieldChunk(control.signal);
+                control.onProgress?.(i, count);
+            }
+            step();
+        }
+        control.onProgress?.(count, count);
+    }
 
-        return { resultA, resultB, winner };
+    /** Let queued messages (progress, cancel) through, then stop if cancelled */
+    private static async yieldChunk(signal?: AbortSignal): Promise<void> {
+        await new Promise(r => setTimeout(r, 0));
+        signal?.throwIfAborted();
     }
 }
@@ -3,6 +3,7 @@
  */
 
 import type { BattleResult } from './TextBattleEngine';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
 
 export interface FitnessBreakdown {
     killTimeScore: number;    // 0~100 — faster = better
@@ -16,17 +17,20 @@ export class FitnessCalculator {
     /**
      * Calculate multi-axis fitness from a battle result
      */
-    static calculate(result: BattleResult): FitnessBreakdown {
+    static calculate(result: BattleResult, balance: BalanceConfig = DEFAULT_BALANCE): FitnessBreakdown {
+        const { killTimeBaseline, damageRatioScale, abilityProcCap, weights } = balance.fitness;
+
         // Kill Time Score: 30s is baseline, faster = higher.  Loss = 0
         const killTimeScore = result.won
-            ? Math.min(100, (30 / Math.max(0.5, result.killTime)) * 50)
+            ? Math.min(100, (killTimeBaseline / Math.max(0.5, result.killTime)) * 50)
             : 0;
 
         // Damage Efficiency: ratio of dealt/taken
-        const damageEfficiency = Math.min(100, result.damageRatio * 20);
+        const damageEfficiency = Math.min(100, result.damageRatio * damageRatioScale);
 
-        // Adaptation Score: how well we bypassed enemy resistances (0~1 → 0~100)
-        const adaptationScore = result.adaptationScore * 100;
+        // Adaptation Score: share of hit damage that got past enemy resistances (0~1 → 0~100)
+        // Special ability procs (pierced defense, tracked dodges, chain splash) add up to +10
+        const adaptationScore = Math.min(100, result.adaptationScore * 100 + Math.min(abilityProcCap, result.abilityProcs));
 
         // Survival Score: HP remaining as %
         const survivalScore = result.won
@@ -35,10 +39,10 @@ export class FitnessCalculator {
 
         // Weighted total
         const totalFitness =
-            killTimeScore * 0.35 +
-            damageEfficiency * 0.30 +
-            adaptationScore * 0.15 +
-            survivalScore * 0.20;
+            killTimeScore * weights.killTime +
+            damageEfficiency * weights.damageEfficiency +
+            adaptationScore * weights.adaptation +
+            survivalScore * weights.survival;
 
         return {
             killTimeScore: Math.round(killTimeScore * 10) / 10,
@@ -50,12 +54,12 @@ export class FitnessCalculator {
     }
 
     /** Calculate average fitness from multiple battle results */
-    static calculateAverage(results: BattleResult[]): FitnessBreakdown {
+    static calculateAverage(results: BattleResult[], balance: BalanceConfig = DEFAULT_BALANCE): FitnessBreakdown {
         if (results.length === 0) {
             return { killTimeScore: 0, damageEfficiency: 0, adaptationScore: 0, survivalScore: 0, totalFitness: 0 };
         }
 
-        const breakdowns = results.map(r => this.calculate(r));
+        const breakdowns = results.map(r => this.calculate(r, balance));
 
         const avg = (field: keyof FitnessBreakdown) =>
             Math.round((breakdowns.reduce((sum, b) => sum + b[field], 0) / breakdowns.length) * 10) / 10;
@@ -70,9 +74,8 @@ export class FitnessCalculator {
     }
 
     /** Add mastery points to a weapon based on battle performance (×1.5 育成緩和) */
-    static addMastery(currentMastery: number, fitness: number): number {
-        if (fitness >= 80) return Math.min(100, currentMastery + 3);
-        if (fitness >= 50) return Math.min(100, currentMastery + 2);
-        return currentMastery;
+    static addMastery(currentMastery: number, fitness: number, balance: BalanceConfig = DEFAULT_BALANCE): number {
+        const gain = balance.fitness.masteryGains.find(g => fitness >= g.minFitness)?.gain ?? 0;
+        return gain > 0 ? Math.min(balance.mastery.cap, currentMastery + gain) : currentMastery;
     }
 }
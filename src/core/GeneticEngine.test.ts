@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { GeneticEngine, type Item } from './GeneticEngine';
+import { PedigreeSystem } from './PedigreeSystem';
+import { createRng } from './mathUtils';
+
+// Related parents with traits and breeding history: exercises inbreeding, inheritance and fatigue
+const parentA: Item = {
+    id: 'chimera_a', genome: [0.8, 0.6, 0.1, 0.65, 0.5, 0.6, 0.3, 0.4, 0.5, 0.3], fitness: 0, generation: 4,
+    ancestorIds: ['chimera_root', 'chimera_x'], breedCount: 2, mastery: 85,
+    traits: [{ defId: 'PP_002', rank: 'Common', source: 'inherited' }, { defId: 'ELT_001', rank: 'Rare', source: 'mutation' }],
+};
+const parentB: Item = {
+    id: 'chimera_b', genome: [0.6, 0.7, 0.5, 0.8, 0.7, 0.4, 0.5, 0.3, 0.2, 0.6], fitness: 0, generation: 3,
+    ancestorIds: ['chimera_root', 'chimera_y'], breedCount: 1, mastery: 80,
+    traits: [{ defId: 'SST_003', rank: 'Rare', source: 'inherited' }, { defId: 'GD_001', rank: 'Common', source: 'inherited' }],
+};
+
+describe('GeneticEngine.breed', () => {
+    it('derives the same child (id, genome, traits) from the same seed', () => {
+        for (const seed of [1, 42, 2024]) {
+            const a = GeneticEngine.breed(parentA, parentB, 0.06, [0], createRng(seed));
+            const b = GeneticEngine.breed(parentA, parentB, 0.06, [0], createRng(seed));
+            expect(b.id).toBe(a.id);
+            expect(b.genome).toEqual(a.genome);
+            expect(b.traits).toEqual(a.traits);
+            expect(b).toEqual(a);
+        }
+    });
+
+    it('draws a different child id per seed', () => {
+        const ids = [1, 2, 3].map(seed => GeneticEngine.breed(parentA, parentB, 0.06, [], createRng(seed)).id);
+        expect(new Set(ids).size).toBe(3);
+    });
+});
+
+describe('GeneticEngine.breed diseases', () => {
+    const trait = (defId: string) => ({ defId, rank: 'Common' as const, source: 'inherited' as const });
+    const always = () => 0;  // every roll succeeds
+
+    it('adds a fatigue disease even when every slot is taken', () => {
+        const a: Item = { ...parentA, ancestorIds: [], breedCount: 3, mastery: 0,
+            traits: ['PP_001', 'PP_002', 'PP_003'].map(trait) };
+        const b: Item = { ...parentB, ancestorIds: [], breedCount: 3, mastery: 0,
+            traits: ['SST_001', 'SST_002', 'SST_003'].map(trait) };
+        const child = GeneticEngine.breed(a, b, 0.06, [], always);
+        expect(child.traits).toHaveLength(6);
+        expect(child.traits?.some(t => t.defId === 'GD_001')).toBe(true);
+    });
+
+    it('lets the mastery cure clear only the inbreeding disease', () => {
+        const a: Item = { ...parentA, ancestorIds: ['chimera_root'], traits: [trait('GD_002')] };
+        const b: Item = { ...parentB, ancestorIds: ['chimera_root'], traits: [] };
+        const child = GeneticEngine.breed(a, b, 0.06, [], always);
+        expect(child.traits?.some(t => t.defId === 'GD_002')).toBe(true);
+    });
+});
+
+describe('PedigreeSystem.rollInbreedDisease', () => {
+    it('keeps the deep-inbreeding odds: none up to COI 0.25, COI × 30%, then 50% above 0.5', () => {
+        expect(PedigreeSystem.rollInbreedDisease(0.25, () => 0)).toBeNull();
+        expect(PedigreeSystem.rollInbreedDisease(0.4, () => 0.11)).not.toBeNull();
+        expect(PedigreeSystem.rollInbreedDisease(0.4, () => 0.13)).toBeNull();
+        expect(PedigreeSystem.rollInbreedDisease(0.6, () => 0.49)?.defId).toMatch(/^GD_00[1256]$/);
+        expect(PedigreeSystem.rollInbreedDisease(0.6, () => 0.51)).toBeNull();
+    });
+});
@@ -4,10 +4,9 @@
  */
 
 import { PedigreeSystem } from './PedigreeSystem';
-import type { GeneticDisease } from './PedigreeSystem';
-import { resolveTraitInheritance } from './TraitSystem';
+import { resolveTraitInheritance, rollLegacyDiseaseTrait } from './TraitSystem';
 import type { TraitInstance } from './TraitSystem';
-import { applySoftCap } from './mathUtils';
+import { applySoftCap, randomId, type Rng } from './mathUtils';
 
 export type Genome = number[];
 
@@ -20,7 +19,6 @@ export interface Item {
   ancestorIds?: string[];            // tracked ancestor chain
   bloodlineName?: string;            // auto-generated bloodline name
   breedCount?: number;               // times used as parent (max 3)
-  geneticDisease?: GeneticDisease | null;  // inbreeding penalty
   battleMemory?: BattleAchievement[];
   mastery?: number;                  // 0~100 proficiency from battle
   lockedGenes?: number[];            // gene indices locked by mastery
@@ -65,14 +63,14 @@ export const GENOME_LENGTH = 10;
 
 export class GeneticEngine {
   /** Create a random genome */
-  static createRandomGenome(): Genome {
-    return Array.from({ length: GENOME_LENGTH }, () => Math.random());
+  static createRandomGenome(rng: Rng = Math.random): Genome {
+    return Array.from({ length: GENOME_LENGTH }, () => rng());
   }
 
   /** Uniform Crossover — each gene has 50% chance from either parent */
-  static crossover(parentA: Genome, parentB: Genome): Genome {
+  static crossover(parentA: Genome, parentB: Genome, rng: Rng = Math.random): Genome {
     return parentA.map((gene, i) =>
-      Math.random() < 0.5 ? gene : parentB[i]
+      rng() < 0.5 ? gene : parentB[i]
     );
   }
 
@@ -81,23 +79,24 @@ export class GeneticEngine {
     genome: Genome,
     rate: number = 0.04,
     generation: number = 1,
-    lockedGenes: number[] = []
+    lockedGenes: number[] = [],
+    rng: Rng = Math.random,
   ): Genome {
     return genome.map((gene, idx) => {
       // Skip locked genes
       if (lockedGenes.includes(idx)) return gene;
 
-      if (Math.random() < rate) {
+      if (rng() < rate) {
         // Genetic entropy: higher generations bias toward negative mutations
         const negativeBias = Math.min(0.7, 0.5 + generation * 0.02);
 
-        if (Math.random() < 0.5) {
+        if (rng() < 0.5) {
           // Full random
-          return Math.random();
+          return rng();
         }
         // Perturbation — biased downward at high generations
-        const direction = Math.random() < negativeBias ? -1 : 1;
-        const magnitude = Math.random() * 0.3;
+        const direction = rng() < negativeBias ? -1 : 1;
+        const magnitude = rng() * 0.3;
         return Math.max(0, Math.min(1, gene + direction * magnitude));
       }
       return gene;
@@ -105,7 +104,7 @@ export class GeneticEngine {
   }
 
   /** Roulette Wheel Selection — probability proportional to fitness */
-  static selectParent(population: Item[]): Item {
+  static selectParent(population: Item[], rng: Rng = Math.random): Item {
     if (population.length === 0) throw new Error('Population is empty');
 
     const totalFitness = population.reduce(
@@ -113,7 +112,7 @@ export class GeneticEngine {
       0
     );
 
-    let r = Math.random() * totalFitness;
+    let r = rng() * totalFitness;
     for (const item of population) {
       r -= Math.max(0.01, item.fitness);
       if (r <= 0) return item;
@@ -126,14 +125,15 @@ export class GeneticEngine {
     parentA: Item,
     parentB: Item,
     mutationRate = 0.06,
-    lockedGenes: number[] = []
+    lockedGenes: number[] = [],
+    rng: Rng = Math.random,
   ): Item {
     const generation = Math.max(parentA.generation, parentB.generation) + 1;
 
     // Genetic entropy: escalating mutation rate
     const entropyRate = mutationRate + generation * 0.005;
 
-    let childGenome = this.crossover(parentA.genome, parentB.genome);
+    let childGenome = this.crossover(parentA.genome, parentB.genome, rng);
 
     // Apply gene locks: locked genes always inherit from parent A, skip mutation
     for (const idx of lockedGenes) {
@@ -153,7 +153,7 @@ export class GeneticEngine {
       lockedGenes = allLocked;
     }
 
-    childGenome = this.mutate(childGenome, entropyRate, generation, lockedGenes);
+    childGenome = this.mutate(childGenome, entropyRate, generation, lockedGenes, rng);
 
     // Soft cap: compress excess beyond 7.0
     childGenome = applySoftCap(childGenome);
@@ -162,21 +162,24 @@ export class GeneticEngine {
     const ancestorIds = PedigreeSystem.buildAncestorIds(parentA, parentB);
 
     // Resolve trait inheritance from parents
-    const childTraits = resolveTraitInheritance(
+    const inheritedTraits = resolveTraitInheritance(
       parentA.traits ?? [],
       parentB.traits ?? [],
       inbreed.coefficient,
+      rng,
     );
+    // Deep inbreeding may add one more disease on top (diseases take no slot)
+    const inbreedDisease = PedigreeSystem.rollInbreedDisease(inbreed.coefficient, rng);
+    const childTraits = this.addDisease(inheritedTraits, inbreedDisease);
 
     const child: Item = {
-      id: `chimera_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`,
+      id: randomId('chimera', rng),
       genome: childGenome,
       fitness: 0,
       generation,
       parentIds: [parentA.id, parentB.id],
       ancestorIds,
       breedCount: 0,
-      geneticDisease: inbreed.geneticDisease ?? null,
       traits: childTraits,
     };
 
@@ -186,18 +189,17 @@ export class GeneticEngine {
     const isMasteryBreed = avgMastery >= 80;
 
     // Genetic fatigue: higher parent breedCount → exponentially higher disease chance
-    if (!child.geneticDisease) {
+    if (!inbreedDisease) {
       const maxParentBreeds = Math.max(parentA.breedCount ?? 0, parentB.breedCount ?? 0);
       let fatigueChance = Math.pow(maxParentBreeds * 0.12, 1.5);
       // Mastery: reduce disease chance by 20%
       if (isMasteryBreed) fatigueChance *= 0.8;
-      if (maxParentBreeds > 0 && Math.random() < fatigueChance) {
-        const diseases: GeneticDisease[] = ['fragile_genome', 'attack_decay', 'element_instability', 'slow_metabolism'];
-        child.geneticDisease = diseases[Math.floor(Math.random() * diseases.length)];
+      if (maxParentBreeds > 0 && rng() < fatigueChance) {
+        child.traits = this.addDisease(childTraits, rollLegacyDiseaseTrait(rng));
       }
-    } else if (isMasteryBreed && Math.random() < 0.20) {
-      // 20% chance to cure inherited disease with high mastery parents
-      child.geneticDisease = null;
+    } else if (isMasteryBreed && rng() < 0.20) {
+      // 20% chance to cure the inbreeding disease with high mastery parents (inherited ones stay)
+      child.traits = childTraits.filter(t => t !== inbreedDisease);
     }
 
     // Mastery: boost positive traits to higher rank (+5% upgrade chance per trait)
@@ -207,7 +209,7 @@ export class GeneticEngine {
       };
       child.traits = child.traits.map(t => {
         const nextRank = rankUpgrade[t.rank];
-        if (nextRank && Math.random() < 0.05) {
+        if (nextRank && rng() < 0.05) {
           return { ...t, rank: nextRank as typeof t.rank };
         }
         return t;
@@ -220,26 +222,33 @@ export class GeneticEngine {
     return child;
   }
 
+  /** Append a rolled disease unless the child already carries it */
+  private static addDisease(traits: TraitInstance[], disease: TraitInstance | null): TraitInstance[] {
+    if (!disease || traits.some(t => t.defId === disease.defId)) return traits;
+    return [...traits, disease];
+  }
+
   /** Predict offspring stat ranges by sampling (entropy-aware) */
   static predictOffspring(
     parentA: Genome,
     parentB: Genome,
     samples = 30,
     generation = 1,
-    lockedGenes: number[] = []
+    lockedGenes: number[] = [],
+    rng: Rng = Math.random,
   ): { average: Genome; min: Genome; max: Genome } {
     const results: Genome[] = [];
     const entropyRate = 0.06 + generation * 0.005;
 
     for (let i = 0; i < samples; i++) {
-      let child = this.crossover(parentA, parentB);
+      let child = this.crossover(parentA, parentB, rng);
       // Apply gene locks
       for (const idx of lockedGenes) {
         if (idx >= 0 && idx < GENOME_LENGTH) {
           child[idx] = parentA[idx];
         }
       }
-      child = this.mutate(child, entropyRate, generation, lockedGenes);
+      child = this.mutate(child, entropyRate, generation, lockedGenes, rng);
 
       // Soft cap
       child = applySoftCap(child);
@@ -1,15 +1,33 @@
 /**
  * Chimera Gear: Text Edition — Genome → Combat Stats Decoder
  *
- * stageBase計算を一元管理: 武器=60+stage*10, 敵=30+stage*4
+ * stageBase計算を一元管理: 武器=60+stage*10, 敵=30+stage*4 (DEFAULT_BALANCE)
  */
 
 import type { Item, Genome } from './GeneticEngine';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
 
 export type ElementType = 'Fire' | 'Ice' | 'Lightning';
+/** Elemental shards dropped by enemies (one per element) */
+export type MaterialType = 'fire_shard' | 'ice_shard' | 'lightning_shard';
 export type SpecialAbility = 'none' | 'homing' | 'piercing' | 'chain_explosion';
 export type ActionType = 'attack' | 'skill' | 'defend';
 
+/** Combat rule attached to each special ability (gene[3]) */
+export interface SpecialAbilityRule {
+    ignoresEvasion: boolean;   // homing: hits cannot be dodged
+    defensePierce: number;     // piercing: share of target defense ignored (0–1)
+    splashRatio: number;       // chain_explosion: share of damage splashed to other enemies
+    ratingMultiplier: number;  // weight applied to DPS in getRating
+}
+
+export const SPECIAL_ABILITY_RULES: Record<SpecialAbility, SpecialAbilityRule> = {
+    none: { ignoresEvasion: false, defensePierce: 0, splashRatio: 0, ratingMultiplier: 1.0 },
+    homing: { ignoresEvasion: true, defensePierce: 0, splashRatio: 0, ratingMultiplier: 1.08 },
+    piercing: { ignoresEvasion: false, defensePierce: 0.5, splashRatio: 0, ratingMultiplier: 1.10 },
+    chain_explosion: { ignoresEvasion: false, defensePierce: 0, splashRatio: 0.5, ratingMultiplier: 1.12 },
+};
+
 export interface CombatStats {
     attack: number;
     attackSpeed: number;   // seconds per action
@@ -29,6 +47,13 @@ export interface CombatStats {
     lightningResist: number;
 }
 
+/** Battle-time stat block — decoded stats plus the extended stats that traits and mastery modify */
+export interface BattleStats extends CombatStats {
+    critRate: number;     // crit chance (0–1)
+    critDamage: number;   // damage multiplier on crit
+    evasion: number;      // dodge chance (0–1)
+}
+
 export class ItemDecoder {
     static decode(genome: Genome, stageBase: number = 100): CombatStats {
         // [0] Attack Power — exponential curve
@@ -106,18 +131,26 @@ export class ItemDecoder {
         };
     }
 
-    static getRating(item: Item): string {
+    /**
+     * Decode into a battle stat block. Base crit scales with the aggression gene [5];
+     * evasion starts at 0 and only comes from traits.
+     */
+    static decodeForBattle(genome: Genome, stageBase: number = 100): BattleStats {
+        return {
+            ...this.decode(genome, stageBase),
+            critRate: 0.1 + genome[5] * 0.1,
+            critDamage: 2.0,
+            evasion: 0,
+        };
+    }
+
+    static getRating(item: Item, balance: BalanceConfig = DEFAULT_BALANCE): string {
         const stats = this.decode(item.genome);
-        const dps = stats.attack / stats.attackSpeed;
-        // Comprehensive score: DPS + defensive value + element synergy
+        const dps = (stats.attack / stats.attackSpeed) * SPECIAL_ABILITY_RULES[stats.special].ratingMultiplier;
+        // Comprehensive score: DPS (weighted by special ability) + defensive value + element synergy
         const tankScore = (stats.maxHp / 500) * 50 + stats.defense * 2;
-        const score = dps + tankScore * 0.3;
-        if (score > 700) return 'SS';
-        if (score > 500) return 'S';
-        if (score > 300) return 'A';
-        if (score > 150) return 'B';
-        if (score > 50) return 'C';
-        return 'D';
+        const score = dps + tankScore * balance.rating.tankWeight;
+        return balance.rating.thresholds.find(t => score > t.minScore)?.rank ?? 'D';
     }
 
     static getElementLabel(elem: ElementType, cleared: boolean = false): string {
@@ -135,6 +168,19 @@ export class ItemDecoder {
         }
     }
 
+    /** Damage multiplier of an attack element against a defender element */
+    static getAffinity(attacker: ElementType, defender: ElementType, balance: BalanceConfig = DEFAULT_BALANCE): number {
+        return balance.battle.elementAffinity[attacker][defender];
+    }
+
+    /** The element whose attacks are most effective against `element` */
+    static getCounterElement(element: ElementType, balance: BalanceConfig = DEFAULT_BALANCE): ElementType {
+        const affinity = balance.battle.elementAffinity;
+        const elements = Object.keys(affinity) as ElementType[];
+        return elements.reduce((best, el) =>
+            affinity[el][element] > affinity[best][element] ? el : best);
+    }
+
     static getSpecialLabel(special: SpecialAbility): string {
         switch (special) {
             case 'chain_explosion': return '💥 連鎖爆発';
@@ -173,12 +219,12 @@ export class ItemDecoder {
     // ── Stage-Base Scaling (single source of truth) ──
 
     /** Weapon stageBase: gentler scaling so D/C rank can progress */
-    static getWeaponStageBase(stage: number): number {
-        return 60 + stage * 10;
+    static getWeaponStageBase(stage: number, balance: BalanceConfig = DEFAULT_BALANCE): number {
+        return balance.stageScaling.weaponBase + stage * balance.stageScaling.weaponPerStage;
     }
 
     /** Enemy stageBase: much lower than weapon to give player clear advantage */
-    static getEnemyStageBase(stage: number): number {
-        return 30 + stage * 4;
+    static getEnemyStageBase(stage: number, balance: BalanceConfig = DEFAULT_BALANCE): number {
+        return balance.stageScaling.enemyBase + stage * balance.stageScaling.enemyPerStage;
     }
 }
@@ -7,22 +7,16 @@ import type { Item, Genome } from './GeneticEngine';
 import { GENOME_LENGTH } from './GeneticEngine';
 import { ItemDecoder } from './ItemDecoder';
 import type { ElementType, SpecialAbility } from './ItemDecoder';
-import { diminishingReturns } from './mathUtils';
+import { rollLegacyDiseaseTrait, type TraitInstance } from './TraitSystem';
+import { diminishingReturns, randomId, type Rng } from './mathUtils';
 
 // ========== TYPES ==========
 
-export type GeneticDisease =
-    | 'fragile_genome'       // Max HP -30%
-    | 'attack_decay'         // 攻撃力が毎ターン1%減衰
-    | 'element_instability'  // 属性がランダムに変化
-    | 'slow_metabolism';     // 攻撃速度 -25%
-
 export interface InbreedResult {
     isInbred: boolean;
     sharedAncestors: string[];
     coefficient: number;       // 0~1 inbreeding coefficient
     fixedGenes: number[];      // gene indices fixed by inbreeding
-    geneticDisease: GeneticDisease | null;
 }
 
 export interface CrystalBonus {
@@ -44,13 +38,6 @@ export interface CrystallizedItem {
 
 export const MAX_BREED_COUNT = 3;
 
-export const GENETIC_DISEASE_LABELS: Record<GeneticDisease, { icon: string; name: string; desc: string }> = {
-    fragile_genome: { icon: '💔', name: '脆弱遺伝子', desc: 'Max HP -30%' },
-    attack_decay: { icon: '📉', name: '攻撃減衰', desc: '攻撃力が毎ターン1%減衰' },
-    element_instability: { icon: '🌀', name: '属性不安定', desc: '属性がランダム変化' },
-    slow_metabolism: { icon: '🐢', name: '代謝低下', desc: '攻撃速度 -25%' },
-};
-
 // ========== NAME GENERATION DATA ==========
 
 /** Title prefixes based on genome characteristics */
@@ -117,7 +104,8 @@ export class PedigreeSystem {
 
     /**
      * Detect inbreeding between two prospective parents.
-     * Returns coefficient, fixed genes, and potential genetic disease.
+     * Returns coefficient and fixed genes. Diseases are rolled as traits from the
+     * coefficient (see rollInbreedDisease and TraitSystem.rollDiseaseOnInbreed).
      */
     static detectInbreeding(parentA: Item, parentB: Item): InbreedResult {
         const ancestorsA = new Set(parentA.ancestorIds ?? []);
@@ -150,7 +138,6 @@ export class PedigreeSystem {
                 sharedAncestors: [],
                 coefficient: 0,
                 fixedGenes: [],
-                geneticDisease: null,
             };
         }
 
@@ -164,28 +151,24 @@ export class PedigreeSystem {
             parentA.genome, parentB.genome, coefficient
         );
 
-        // Genetic disease risk: only if coefficient > 0.25
-        let geneticDisease: GeneticDisease | null = null;
-        if (coefficient > 0.25) {
-            // COI > 0.5: deadly disease risk 50%, but stat explosion
-            const diseaseChance = coefficient > 0.5 ? 0.5 : coefficient * 0.3;
-            if (Math.random() < diseaseChance) {
-                const diseases: GeneticDisease[] = [
-                    'fragile_genome', 'attack_decay', 'element_instability', 'slow_metabolism',
-                ];
-                geneticDisease = diseases[Math.floor(Math.random() * diseases.length)];
-            }
-        }
-
         return {
             isInbred: true,
             sharedAncestors,
             coefficient,
             fixedGenes,
-            geneticDisease,
         };
     }
 
+    /**
+     * Deep-inbreeding disease roll: only if coefficient > 0.25.
+     * COI > 0.5 risks a disease at 50% (alongside the stat explosion), below that COI × 30%.
+     */
+    static rollInbreedDisease(coefficient: number, rng: Rng = Math.random): TraitInstance | null {
+        if (coefficient <= 0.25) return null;
+        const diseaseChance = coefficient > 0.5 ? 0.5 : coefficient * 0.3;
+        return rng() < diseaseChance ? rollLegacyDiseaseTrait(rng) : null;
+    }
+
     /**
      * Select which genes get fixed by inbreeding.
      * Picks genes where both parents have similar values (< 0.15 diff).
@@ -214,7 +197,6 @@ export class PedigreeSystem {
     /**
      * Apply inbreeding effects to a child genome.
      * Fixed genes are averaged from parents (locked in).
-     * Disease modifies specific genome values.
      */
     static applyInbreedEffects(
         childGenome: Genome,
@@ -229,24 +211,6 @@ export class PedigreeSystem {
             result[idx] = (parentA.genome[idx] + parentB.genome[idx]) / 2;
         }
 
-        // Apply genetic disease effects to genome
-        if (inbreed.geneticDisease) {
-            switch (inbreed.geneticDisease) {
-                case 'fragile_genome':
-                    result[4] = Math.max(0, result[4] * 0.7); // HP -30%
-                    break;
-                case 'attack_decay':
-                    result[0] = Math.max(0, result[0] * 0.85); // Attack -15% base
-                    break;
-                case 'element_instability':
-                    result[2] = Math.random(); // Randomize element
-                    break;
-                case 'slow_metabolism':
-                    result[1] = Math.max(0, result[1] * 0.75); // Speed -25%
-                    break;
-            }
-        }
-
         // COI > 0.5: explosive stat boost (diminishes with generation)
         if (inbreed.coefficient > 0.5) {
             const maxGen = Math.max(
@@ -286,6 +250,11 @@ export class PedigreeSystem {
         return `${title}${properName}`;
     }
 
+    /** The title half of a bloodline name (the proper name half hashes the item id) */
+    static getBloodlineTitle(item: Item): string {
+        return this.selectTitle(item, ItemDecoder.decode(item.genome));
+    }
+
     private static selectTitle(
         item: Item,
         stats: ReturnType<typeof ItemDecoder.decode>,
@@ -349,7 +318,7 @@ export class PedigreeSystem {
      * Crystallize an item that has reached its breeding limit.
      * Returns the crystallized form with bonuses.
      */
-    static crystallize(item: Item): CrystallizedItem {
+    static crystallize(item: Item, rng: Rng = Math.random): CrystallizedItem {
         // Calculate crystal bonus based on generation and genome quality
         const genomeSum = item.genome.reduce((a, b) => a + b, 0);
         const qualityFactor = genomeSum / GENOME_LENGTH; // avg gene value 0~1
@@ -374,7 +343,7 @@ export class PedigreeSystem {
         const bloodlineName = item.bloodlineName ?? this.generateBloodlineName(item);
 
         return {
-            id: `crystal_${Date.now()}_${Math.random().toString(36).slice(2, 5)}`,
+            id: randomId('crystal', rng),
             originalId: item.id,
             bloodlineName,
             genome: [...item.genome],
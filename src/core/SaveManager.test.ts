@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { SaveManager } from './SaveManager';
+import type { Item } from './GeneticEngine';
+import type { TraitInstance } from './TraitSystem';
+import { applyTraits } from './TraitSystem';
+import { ItemDecoder } from './ItemDecoder';
+
+type LegacyItem = Item & { geneticDisease?: string | null };
+const migrate = (item: LegacyItem): Item => SaveManager['migrateLegacyDisease'](item);
+
+const fullSlots: TraitInstance[] = [
+    { defId: 'PP_002', rank: 'Common', source: 'inherited' },
+    { defId: 'PP_003', rank: 'Common', source: 'inherited' },
+    { defId: 'ELT_001', rank: 'Rare', source: 'mutation' },
+    { defId: 'SST_003', rank: 'Rare', source: 'inherited' },
+    { defId: 'MUT_001', rank: 'Rare', source: 'mutation' },
+];
+const legacy = (traits: TraitInstance[], geneticDisease: string | null): LegacyItem => ({
+    id: 'chimera_old', genome: [0.6, 0.5, 0.2, 0.3, 0.6, 0.5, 0.4, 0.3, 0.4, 0.4], fitness: 40, generation: 5,
+    traits, geneticDisease,
+});
+
+describe('SaveManager legacy disease migration', () => {
+    it('keeps every owned trait when the slots are already full', () => {
+        const migrated = migrate(legacy(fullSlots, 'fragile_genome'));
+        expect(migrated).not.toHaveProperty('geneticDisease');
+        expect(migrated.traits).toEqual([
+            { defId: 'GD_001', rank: 'Common', source: 'inherited', penaltyBaked: true },
+            ...fullSlots,
+        ]);
+    });
+
+    it('keeps all owned traits active without re-applying the baked penalty', () => {
+        const migrated = migrate(legacy(fullSlots, 'fragile_genome'));
+        const base = ItemDecoder.decodeForBattle(migrated.genome);
+        const before = applyTraits(base, fullSlots);
+        const after = applyTraits(base, migrated.traits!);
+        expect(after.activeTraits.map(t => t.defId)).toEqual(['GD_001', ...before.activeTraits.map(t => t.defId)]);
+        expect(after.lostTraits).toEqual(before.lostTraits);
+        expect(after.stats).toEqual(before.stats);
+    });
+
+    it('leaves items without a legacy disease untouched', () => {
+        expect(migrate(legacy(fullSlots, null)).traits).toEqual(fullSlots);
+        expect(migrate(legacy([], 'unknown_disease')).traits).toEqual([]);
+    });
+});
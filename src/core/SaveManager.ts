@@ -5,7 +5,8 @@
 import Dexie from 'dexie';
 import type { Item, Genome } from './GeneticEngine';
 import type { CrystallizedItem } from './PedigreeSystem';
-import type { MaterialType } from '../store/useGameStore';
+import type { MaterialType } from './ItemDecoder';
+import { addLegacyDiseaseTrait, legacyDiseaseToTrait } from './TraitSystem';
 
 // ========== ARCHIVED ANCESTOR ==========
 // Lightweight record for pedigree display after item is decomposed/crystallized
@@ -23,9 +24,12 @@ export interface ArchivedAncestor {
 
 // ========== DATABASE SCHEMA ==========
 
+/** Items from saves made before diseases became traits */
+type LegacyItem = Item & { geneticDisease?: string | null };
+
 interface SaveData {
     id: string; // always 'main'
-    inventory: Item[];
+    inventory: LegacyItem[];
     equippedWeaponId: string | null;
     stage: number;
     wave: number;
@@ -139,7 +143,8 @@ export class SaveManager {
                         ? item.generation : 1,
                     breedCount: typeof item.breedCount === 'number' ? item.breedCount : 0,
                     locked: typeof item.locked === 'boolean' ? item.locked : false,
-                }));
+                }))
+                .map(item => this.migrateLegacyDisease(item));
 
             // Validate scalar fields with safe defaults
             const stage = typeof data.stage === 'number' && data.stage > 0 ? data.stage : 1;
@@ -175,6 +180,19 @@ export class SaveManager {
         }
     }
 
+    /**
+     * Migration: legacy `geneticDisease` field → disease trait.
+     * Its stat penalty is already in the genome (penaltyBaked), and it sits
+     * outside the slot cap — every trait the player owns is kept.
+     */
+    private static migrateLegacyDisease(item: LegacyItem): Item {
+        const { geneticDisease, ...rest } = item;
+        const disease = legacyDiseaseToTrait(geneticDisease);
+        if (!disease || rest.traits?.some(t => t.defId === disease.defId)) return { ...rest, traits: rest.traits ?? [] };
+        console.warn(`[SaveManager] Migrated legacy disease "${geneticDisease}" → ${disease.defId} on ${item.id}`);
+        return { ...rest, traits: addLegacyDiseaseTrait(rest.traits ?? [], disease) };
+    }
+
     /**
      * Check if a save exists.
      */
@@ -0,0 +1,156 @@
+/**
+ * Chimera Gear: Text Edition — Simulation Protocol
+ * Typed messages between SimulationService (main thread) and SimulationWorker,
+ * plus the job runner both sides share (the service runs jobs inline without Worker support).
+ * Every job carries an id; the worker answers with progress, then exactly one
+ * result / error / cancelled message for that id.
+ */
+
+import type { Item } from './GeneticEngine';
+import { ReplayManager, type BattleReplay } from './BattleReplay';
+import type { BattleResult } from './TextBattleEngine';
+import {
+    FastSimulator,
+    type CompareResult, type PoolSimulationResult, type SimulatedEnemy, type SimulatedWeapon, type SimulationControl, type SimulationResult,
+    type StageSimulationResult, type OffspringForecast,
+} from './FastSimulator';
+import type { BalanceConfig } from './BalanceConfig';
+import { EnemyEvolution, type EnemyEvolutionSnapshot } from './EnemyEvolution';
+import { createRng } from './mathUtils';
+
+// ========== JOBS ==========
+
+/** Regenerate one battle from its replay record (seed + inputs) */
+export interface BattleJob {
+    kind: 'battle';
+    replay: BattleReplay;
+}
+
+/** FastSimulator.simulate — `seed` makes the run reproducible (omit for Math.random) */
+export interface SimulateJob {
+    kind: 'simulate';
+    weapon: SimulatedWeapon;
+    enemy: SimulatedEnemy;
+    stageLevel: number;
+    battleCount: number;
+    seed?: number;
+    balance?: BalanceConfig;
+}
+
+/** FastSimulator.simulatePool — fresh stage enemies each battle, spawned from `evolution` (omit for no history) */
+export interface PoolJob {
+    kind: 'pool';
+    weapon: SimulatedWeapon;
+    stageLevel: number;
+    battleCount: number;
+    maxWaves?: number;
+    evolution?: EnemyEvolutionSnapshot;
+    seed?: number;
+    balance?: BalanceConfig;
+}
+
+/** FastSimulator.simulateStage — whole stage runs (waves, HP carry-over, boss), each starting from `evolution` (omit for no history) */
+export interface StageJob {
+    kind: 'stage';
+    weapon: SimulatedWeapon;
+    stageLevel: number;
+    runs: number;
+    maxWaves?: number;
+    evolution?: EnemyEvolutionSnapshot;
+    seed?: number;
+    balance?: BalanceConfig;
+}
+
+/** FastSimulator.simulateOffspring — breeding forecast over `samples` bred children */
+export interface OffspringJob {
+    kind: 'offspring';
+    parentA: Item;
+    parentB: Item;
+    stageLevel: number;
+    samples: number;
+    battlesPerChild: number;
+    mutationRate?: number;
+    lockedGenes?: number[];
+    seed?: number;
+    balance?: BalanceConfig;
+}
+
+/** FastSimulator.compare — two candidates against the same enemy */
+export interface CompareJob {
+    kind: 'compare';
+    weaponA: SimulatedWeapon;
+    weaponB: SimulatedWeapon;
+    enemy: SimulatedEnemy;
+    stageLevel: number;
+    battleCount: number;
+    seed?: number;
+    balance?: BalanceConfig;
+}
+
+export type SimulationJob = BattleJob | SimulateJob | PoolJob | StageJob | OffspringJob | CompareJob;
+
+/** Result type of each job kind */
+export interface SimulationJobResults {
+    battle: BattleResult;
+    simulate: SimulationResult;
+    pool: PoolSimulationResult;
+    stage: StageSimulationResult;
+    offspring: OffspringForecast;
+    compare: CompareResult;
+}
+
+// ========== MESSAGES ==========
+
+export type SimulationRequest =
+    | { type: 'run'; id: number; job: SimulationJob }
+    | { type: 'cancel'; id: number };
+
+export type SimulationResponse =
+    | { type: 'progress'; id: number; done: number; total: number }
+    | { type: 'result'; id: number; result: SimulationJobResults[SimulationJob['kind']] }
+    | { type: 'error'; id: number; message: string }
+    | { type: 'cancelled'; id: number };
+
+// ========== EXECUTION ==========
+
+/** Run one job to completion (rejects with an AbortError when `control.signal` fires) */
+export function runSimulationJob<K extends SimulationJob['kind']>(
+    job: Extract<SimulationJob, { kind: K }>,
+    control?: SimulationControl,
+): Promise<SimulationJobResults[K]>;
+export async function runSimulationJob(job: SimulationJob, control: SimulationControl = {}): Promise<SimulationJobResults[SimulationJob['kind']]> {
+    switch (job.kind) {
+        case 'battle':
+            control.signal?.throwIfAborted();
+            return ReplayManager.play(job.replay);
+        case 'simulate': {
+            const rng = job.seed !== undefined ? createRng(job.seed) : Math.random;
+            return FastSimulator.simulateAsync(job.weapon, job.enemy, job.stageLevel, job.battleCount, rng, job.balance, control);
+        }
+        case 'pool': {
+            const rng = job.seed !== undefined ? createRng(job.seed) : Math.random;
+            return FastSimulator.simulatePoolAsync(job.weapon, job.stageLevel, job.battleCount, rng, job.balance, {
+                maxWaves: job.maxWaves,
+                evolution: job.evolution && EnemyEvolution.fromSnapshot(job.evolution),
+            }, control);
+        }
+        case 'stage': {
+            const rng = job.seed !== undefined ? createRng(job.seed) : Math.random;
+            return FastSimulator.simulateStageAsync(job.weapon, job.stageLevel, job.runs, rng, job.balance, {
+                maxWaves: job.maxWaves,
+                evolution: job.evolution && EnemyEvolution.fromSnapshot(job.evolution),
+            }, control);
+        }
+        case 'offspring': {
+            const rng = job.seed !== undefined ? createRng(job.seed) : Math.random;
+            return FastSimulator.simulateOffspringAsync(
+                job.parentA, job.parentB, job.stageLevel, job.samples, job.battlesPerChild, rng, job.balance,
+                { mutationRate: job.mutationRate, lockedGenes: job.lockedGenes }, control,
+            );
+        }
+        case 'compare': {
+            const rng = job.seed !== undefined ? createRng(job.seed) : Math.random;
+            return FastSimulator.compareAsync(job.weaponA, job.weaponB, job.enemy, job.stageLevel, job.battleCount, rng, job.balance, control);
+        }
+    }
+}
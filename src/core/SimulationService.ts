@@ -0,0 +1,147 @@
+/**
+ * Chimera Gear: Text Edition — Simulation Service
+ * Main-thread client for SimulationWorker: battles and bulk simulations run off
+ * the UI thread, with progress callbacks and AbortSignal cancellation.
+ * Falls back to running jobs inline (still chunked) where Worker is unavailable.
+ */
+
+import type { BattleReplay } from './BattleReplay';
+import {
+    runSimulationJob,
+    type CompareJob, type OffspringJob, type PoolJob, type SimulateJob, type StageJob, type SimulationJob, type SimulationJobResults,
+    type SimulationRequest, type SimulationResponse,
+} from './SimulationProtocol';
+
+export interface SimulationJobOptions {
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+interface PendingJob {
+    resolve: (result: unknown) => void;
+    reject: (err: unknown) => void;
+    onProgress?: (done: number, total: number) => void;
+    cleanup: () => void;
+}
+
+/** True for the rejection of a cancelled job */
+export function isSimulationCancelled(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
+}
+
+export class SimulationService {
+    private worker: Worker | null = null;
+    private nextId = 1;
+    private pending = new Map<number, PendingJob>();
+
+    /** Regenerate a recorded battle (see ReplayManager.play) */
+    battle(replay: BattleReplay, options: SimulationJobOptions = {}): Promise<SimulationJobResults['battle']> {
+        return this.run({ kind: 'battle', replay }, options);
+    }
+
+    /** FastSimulator.simulate off the main thread */
+    simulate(params: Omit<SimulateJob, 'kind'>, options: SimulationJobOptions = {}): Promise<SimulationJobResults['simulate']> {
+        return this.run({ kind: 'simulate', ...params }, options);
+    }
+
+    /** FastSimulator.simulatePool (stage enemy pool + confidence intervals) off the main thread */
+    simulatePool(params: Omit<PoolJob, 'kind'>, options: SimulationJobOptions = {}): Promise<SimulationJobResults['pool']> {
+        return this.run({ kind: 'pool', ...params }, options);
+    }
+
+    /** FastSimulator.simulateStage (whole stage runs) off the main thread */
+    simulateStage(params: Omit<StageJob, 'kind'>, options: SimulationJobOptions = {}): Promise<SimulationJobResults['stage']> {
+        return this.run({ kind: 'stage', ...params }, options);
+    }
+
+    /** FastSimulator.simulateOffspring (breeding forecast) off the main thread */
+    simulateOffspring(params: Omit<OffspringJob, 'kind'>, options: SimulationJobOptions = {}): Promise<SimulationJobResults['offspring']> {
+        return this.run({ kind: 'offspring', ...params }, options);
+    }
+
+    /** FastSimulator.compare off the main thread */
+    compare(params: Omit<CompareJob, 'kind'>, options: SimulationJobOptions = {}): Promise<SimulationJobResults['compare']> {
+        return this.run({ kind: 'compare', ...params }, options);
+    }
+
+    /** Post a job to the worker; resolves with its result, rejects with an AbortError on cancel */
+    run<K extends SimulationJob['kind']>(
+        job: Extract<SimulationJob, { kind: K }>,
+        options: SimulationJobOptions = {},
+    ): Promise<SimulationJobResults[K]> {
+        const { signal, onProgress } = options;
+        if (signal?.aborted) return Promise.reject(signal.reason);
+
+        const worker = this.getWorker();
+        if (!worker) return runSimulationJob(job, options);
+
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => this.post({ type: 'cancel', id });
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.pending.set(id, {
+                resolve: result => resolve(result as SimulationJobResults[K]),
+                reject,
+                onProgress,
+                cleanup: () => signal?.removeEventListener('abort', onAbort),
+            });
+            this.post({ type: 'run', id, job });
+        });
+    }
+
+    /** Stop the worker; pending jobs are rejected and the next job starts a fresh worker */
+    terminate(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.failAll(new Error('シミュレーションワーカーが停止しました'));
+    }
+
+    // ========== WORKER ==========
+
+    private getWorker(): Worker | null {
+        if (this.worker) return this.worker;
+        if (typeof Worker === 'undefined') return null;
+        try {
+            this.worker = new Worker(new URL('./SimulationWorker.ts', import.meta.url), { type: 'module' });
+        } catch (err) {
+            console.warn('[SimulationService] worker unavailable, running inline:', err);
+            return null;
+        }
+        this.worker.addEventListener('message', (e: MessageEvent<SimulationResponse>) => this.handleMessage(e.data));
+        this.worker.addEventListener('error', e => {
+            console.error('[SimulationService] worker error:', e.message);
+            this.terminate();
+        });
+        return this.worker;
+    }
+
+    private post(msg: SimulationRequest): void {
+        this.worker?.postMessage(msg);
+    }
+
+    private handleMessage(msg: SimulationResponse): void {
+        const job = this.pending.get(msg.id);
+        if (!job) return;
+        if (msg.type === 'progress') {
+            job.onProgress?.(msg.done, msg.total);
+            return;
+        }
+
+        this.pending.delete(msg.id);
+        job.cleanup();
+        if (msg.type === 'result') job.resolve(msg.result);
+        else if (msg.type === 'cancelled') job.reject(new DOMException('シミュレーションを中断しました', 'AbortError'));
+        else job.reject(new Error(msg.message));
+    }
+
+    private failAll(err: Error): void {
+        for (const job of this.pending.values()) {
+            job.cleanup();
+            job.reject(err);
+        }
+        this.pending.clear();
+    }
+}
+
+/** Shared service — one worker for the whole app */
+export const simulationService = new SimulationService();
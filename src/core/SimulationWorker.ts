@@ -0,0 +1,35 @@
+/**
+ * Chimera Gear: Text Edition — Simulation Worker
+ * Web Worker entry: runs battle / simulate / compare jobs off the main thread.
+ * Started by SimulationService; speaks the SimulationProtocol messages.
+ */
+
+import { runSimulationJob, type SimulationRequest, type SimulationResponse } from './SimulationProtocol';
+
+const running = new Map<number, AbortController>();
+
+const reply = (msg: SimulationResponse) => self.postMessage(msg);
+
+self.addEventListener('message', async (e: MessageEvent<SimulationRequest>) => {
+    const msg = e.data;
+    if (msg.type === 'cancel') {
+        running.get(msg.id)?.abort();
+        return;
+    }
+
+    const { id, job } = msg;
+    const controller = new AbortController();
+    running.set(id, controller);
+    try {
+        const result = await runSimulationJob(job, {
+            signal: controller.signal,
+            onProgress: (done, total) => reply({ type: 'progress', id, done, total }),
+        });
+        reply({ type: 'result', id, result });
+    } catch (err) {
+        if (controller.signal.aborted) reply({ type: 'cancelled', id });
+        else reply({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+    } finally {
+        running.delete(id);
+    }
+});
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { StageRunner, type StageWeapon } from './StageRunner';
+import { EnemyEvolution } from './EnemyEvolution';
+import { ReplayManager } from './BattleReplay';
+import { FitnessCalculator } from './FitnessCalculator';
+import { WAVE_CLEAR_HEAL_RATIO, WaveStateManager } from './WaveState';
+import { createRng } from './mathUtils';
+
+const strong: StageWeapon = { id: 'chimera_strong', genome: [0.95, 0.9, 0.15, 0.9, 0.95, 0.9, 0.8, 0.9, 0.9, 0.8], mastery: 40 };
+const weak: StageWeapon = { id: 'chimera_weak', genome: [0.05, 0.1, 0.5, 0.05, 0.05, 0.1, 0.1, 0.1, 0.1, 0.1] };
+
+/** Prepare and fight one wave, leaving the rewards to resolve */
+const fightWave = (weapon: StageWeapon, stage: number, seed: number) => {
+    const evolution = new EnemyEvolution();
+    const prepared = StageRunner.prepareWave({
+        evolution, weapon, stage, wave: 1, maxWaves: 3, waveState: WaveStateManager.create(), rng: createRng(seed), quiet: true,
+    });
+    return { evolution, prepared, result: ReplayManager.play(prepared.replay, true) };
+};
+
+describe('StageRunner.spawnWave', () => {
+    it('spawns getWaveSize enemies, the same ones for the same seed', () => {
+        for (const [stage, wave] of [[1, 1], [7, 2], [23, 3]]) {
+            const spawns = StageRunner.spawnWave(new EnemyEvolution(), stage, wave, createRng(stage));
+            expect(spawns).toHaveLength(StageRunner.getWaveSize(stage, wave));
+            expect(spawns.every(sp => sp.species !== 'boss')).toBe(true);
+            expect(StageRunner.spawnWave(new EnemyEvolution(), stage, wave, createRng(stage))).toEqual(spawns);
+        }
+    });
+
+    it('puts the named boss in the last slot on boss stages', () => {
+        const spawns = StageRunner.spawnWave(new EnemyEvolution(), 10, 2, createRng(3));
+        expect(spawns).toHaveLength(StageRunner.getWaveSize(10, 2));
+        expect(spawns[spawns.length - 1].species).toBe('boss');
+        expect(spawns[spawns.length - 1].boss?.stage).toBe(10);
+        expect(spawns.slice(0, -1).every(sp => !sp.boss)).toBe(true);
+    });
+});
+
+describe('StageRunner.resolveWave', () => {
+    it('rewards every kill and grows mastery once per kill', () => {
+        const { evolution, prepared, result } = fightWave(strong, 2, 11);
+        const killed = result.enemies.filter(e => e.killed);
+        expect(killed.length).toBeGreaterThan(0);
+
+        // rng 0: every loot and shard roll succeeds
+        const outcome = StageRunner.resolveWave(evolution, prepared, result, () => 0);
+        expect(outcome.kills.map(k => k.enemyIndex)).toEqual(killed.map(e => e.index));
+        for (const kill of outcome.kills) {
+            expect(kill.loot?.genome).toEqual(prepared.spawns[kill.enemyIndex].genome);
+            expect(kill.loot?.fitness).toBe(outcome.fitness);
+            expect(kill.shard?.count).toBe(1);
+        }
+
+        let mastery = strong.mastery ?? 0;
+        for (let i = 0; i < killed.length; i++) mastery = FitnessCalculator.addMastery(mastery, outcome.fitness);
+        expect(outcome.masteryAfter).toBe(mastery);
+    });
+
+    it('drops nothing when every reward roll fails', () => {
+        const { evolution, prepared, result } = fightWave(strong, 2, 11);
+        const outcome = StageRunner.resolveWave(evolution, prepared, result, () => 0.99);
+        expect(outcome.kills.length).toBeGreaterThan(0);
+        expect(outcome.kills.every(k => k.loot === null && k.shard === null)).toBe(true);
+    });
+
+    it('heals a won non-final wave by 40% of max HP, capped at max HP', () => {
+        const { evolution, prepared, result } = fightWave(strong, 2, 11);
+        expect(result.won).toBe(true);
+        const outcome = StageRunner.resolveWave(evolution, prepared, result, createRng(1));
+        expect(outcome.waveState.hp).toBe(result.weaponHpRemaining);
+
+        const transition = outcome.transition;
+        expect(transition).not.toBeNull();
+        expect(transition?.heal).toBe(Math.floor((transition?.maxHp ?? 0) * WAVE_CLEAR_HEAL_RATIO));
+        expect(transition?.state.hp).toBe(Math.min(transition?.maxHp ?? 0, result.weaponHpRemaining + (transition?.heal ?? 0)));
+        expect(transition?.state.wavesCleared).toBe(1);
+    });
+});
+
+describe('StageRunner.runStage', () => {
+    it('carries the healed HP into the next wave', () => {
+        const outcome = StageRunner.runStage({
+            evolution: new EnemyEvolution(), weapon: strong, stage: 2, maxWaves: 3, rng: createRng(4), quiet: true,
+        });
+        expect(outcome.waves.length).toBeGreaterThan(1);
+        expect(outcome.waves[0].replay.initialWeaponHp).toBeNull();
+        for (let i = 1; i < outcome.waves.length; i++) {
+            expect(outcome.waves[i].replay.initialWeaponHp).toBe(outcome.waves[i - 1].transition?.state.hp);
+        }
+    });
+
+    it('stops at the wave the weapon falls in', () => {
+        const outcome = StageRunner.runStage({
+            evolution: new EnemyEvolution(), weapon: weak, stage: 30, maxWaves: 3, rng: createRng(8), quiet: true,
+        });
+        expect(outcome.cleared).toBe(false);
+        expect(outcome.waves).toHaveLength(1);
+        expect(outcome.waves[0].result.won).toBe(false);
+        expect(outcome.waves[0].transition).toBeNull();
+        expect(outcome.counterReport).toBeNull();
+    });
+
+    it('fights no wave when the weapon starts at 0 HP', () => {
+        const outcome = StageRunner.runStage({
+            evolution: new EnemyEvolution(), weapon: strong, stage: 1, maxWaves: 3,
+            waveState: { ...WaveStateManager.create(), hp: 0 }, rng: createRng(2), quiet: true,
+        });
+        expect(outcome.waves).toHaveLength(0);
+        expect(outcome.cleared).toBe(false);
+    });
+
+    it('replays the same stage run for the same seed', () => {
+        const run = () => StageRunner.runStage({
+            evolution: new EnemyEvolution(), weapon: strong, stage: 10, maxWaves: 3, rng: createRng(21), quiet: true,
+        });
+        const first = run();
+        const second = run();
+        expect(second.waves.map(w => w.result.events)).toEqual(first.waves.map(w => w.result.events));
+        expect({ ...second, waves: [] }).toEqual({ ...first, waves: [] });
+    });
+});
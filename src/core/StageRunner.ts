@@ -0,0 +1,301 @@
+/**
+ * Chimera Gear: Text Edition — Stage Runner
+ * Headless stage loop: wave composition, boss placement, battles, loot and
+ * shard drops, mastery gain, HP carry-over and story unlocks. The UI drives it
+ * wave by wave to animate; simulations call runStage for whole stages.
+ */
+
+import type { Genome, Item } from './GeneticEngine';
+import { ItemDecoder, type ElementType, type MaterialType } from './ItemDecoder';
+import type { EnemyEvolution, CounterReport, EnemySpawn, EnemySpecies } from './EnemyEvolution';
+import { FitnessCalculator } from './FitnessCalculator';
+import { ReplayManager, type BattleReplay } from './BattleReplay';
+import { WaveStateManager, type WaveTransition, type WeaponWaveState } from './WaveState';
+import { getBossStory, FINAL_STORY_STAGE, type BossStory } from './BossStory';
+import type { BattleResult } from './TextBattleEngine';
+import type { TraitInstance } from './TraitSystem';
+import { randomId, type Rng } from './mathUtils';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
+
+// ========== TYPES ==========
+
+/** The weapon fields the stage loop reads (an inventory Item fits) */
+export interface StageWeapon {
+    id: string;
+    genome: Genome;
+    traits?: TraitInstance[];
+    mastery?: number;
+}
+
+/** Everything that came out of one killed enemy */
+export interface KillOutcome {
+    enemyIndex: number;
+    species: EnemySpecies;
+    killTime: number;
+    loot: Item | null;                                   // gene chip drop (null = materials only)
+    shard: { type: MaterialType; count: number } | null;
+    story: BossStory | null;                             // unlocked by a named boss kill
+}
+
+/** A spawned wave and its battle record, ready to be fought (see prepareWave) */
+export interface PreparedWave {
+    stage: number;
+    wave: number;
+    maxWaves: number;
+    weapon: StageWeapon;
+    waveState: WeaponWaveState;
+    spawns: EnemySpawn[];       // boss last on boss stages
+    replay: BattleReplay;
+}
+
+export interface WaveOutcome {
+    stage: number;
+    wave: number;
+    spawns: EnemySpawn[];       // boss last on boss stages
+    replay: BattleReplay;
+    result: BattleResult;
+    fitness: number;            // weapon fitness of this battle (loot + mastery)
+    kills: KillOutcome[];       // kills before a loss still count
+    masteryAfter: number;       // weapon mastery after this wave's kills
+    waveState: WeaponWaveState; // carried state after the battle (before any wave heal)
+    transition: WaveTransition | null;   // heal + per-wave debuffs into the next wave (won, non-final waves only)
+    gameCleared: boolean;       // final story boss defeated
+}
+
+export interface StageOutcome {
+    stage: number;
+    waves: WaveOutcome[];
+    cleared: boolean;
+    totalKills: number;
+    genesCollected: number;
+    bestFitness: number;
+    masteryAfter: number;
+    waveState: WeaponWaveState;          // weapon state at the end of the run
+    counterReport: CounterReport | null; // enemy counter-evolution (cleared stages only)
+}
+
+/** Inputs of one wave fight */
+export interface WaveInput {
+    evolution: EnemyEvolution;
+    weapon: StageWeapon;
+    stage: number;
+    wave: number;
+    maxWaves: number;
+    waveState: WeaponWaveState;
+    rng?: Rng;
+    balance?: BalanceConfig;
+    quiet?: boolean;   // silence engine debug warnings (simulated runs)
+}
+
+// ========== CONSTANTS ==========
+
+const LOOT_CHANCE = { normal: 0.40, boss: 0.80 };
+const SHARD_CHANCE = { normal: 0.15, boss: 0.80 };
+const SHARD_COUNT = { normal: 1, boss: 3 };
+
+const SHARD_BY_ELEMENT: Record<ElementType, MaterialType> = {
+    Fire: 'fire_shard', Ice: 'ice_shard', Lightning: 'lightning_shard',
+};
+
+// ========== RUNNER ==========
+
+export class StageRunner {
+    /** Enemies fighting at once in a wave: 2 + floor(stage × 0.2) + (wave - 1) */
+    static getWaveSize(stage: number, wave: number): number {
+        return 2 + Math.floor(stage * 0.2) + (wave - 1);
+    }
+
+    /** Every 10th stage ends its waves with a named boss */
+    static isBossStage(stage: number): boolean {
+        return stage % 10 === 0 && stage > 0;
+    }
+
+    /** Share of a stage's spawns that are its boss (one per wave on boss stages, 0 otherwise) */
+    static getBossShare(stage: number, maxWaves: number): number {
+        if (!this.isBossStage(stage)) return 0;
+        let total = 0;
+        for (let wave = 1; wave <= maxWaves; wave++) total += this.getWaveSize(stage, wave);
+        return total > 0 ? maxWaves / total : 0;
+    }
+
+    /** Spawn a whole wave up front — the boss takes the last slot on boss stages */
+    static spawnWave(evolution: EnemyEvolution, stage: number, wave: number, rng: Rng = Math.random): EnemySpawn[] {
+        const size = this.getWaveSize(stage, wave);
+        const isBossStage = this.isBossStage(stage);
+        return Array.from({ length: size }, (_, i) => isBossStage && i === size - 1
+            ? evolution.spawnBoss(stage, rng)
+            : evolution.spawnEnemy(stage, rng));
+    }
+
+    /**
+     * Spawn and fight one wave, then resolve kills (loot, shards, mastery,
+     * story) and — if the weapon won a non-final wave — the wave transition.
+     * `evolution` learns from the fight (player elements, enemy deaths).
+     */
+    static runWave(input: WaveInput): WaveOutcome {
+        const prepared = this.prepareWave(input);
+        return this.resolveWave(input.evolution, prepared, ReplayManager.play(prepared.replay, input.quiet), input.rng);
+    }
+
+    /**
+     * First half of runWave: spawn the wave and record its battle inputs.
+     * Callers that fight elsewhere (e.g. SimulationService) play `replay`
+     * and hand the result to resolveWave.
+     */
+    static prepareWave(input: WaveInput): PreparedWave {
+        const { evolution, weapon, stage, wave, maxWaves, waveState } = input;
+        const rng = input.rng ?? Math.random;
+        const balance = input.balance ?? DEFAULT_BALANCE;
+        const spawns = this.spawnWave(evolution, stage, wave, rng);
+
+        // Seed + inputs are recorded so the fight can be replayed / shared later.
+        // Time budget matches the old sequential fights: the balance's maxTime per enemy.
+        const replay = ReplayManager.create({
+            weaponGenome: weapon.genome,
+            enemyGenomes: spawns.map(sp => sp.genome),
+            enemyTraits: spawns.map(sp => sp.traits),
+            enemyMasteries: spawns.map(sp => sp.mastery),
+            enemyBosses: spawns.map(sp => sp.boss ?? null),
+            stage,
+            maxTime: balance.battle.maxTime * spawns.length,
+            weaponTraits: weapon.traits ?? [],
+            initialWeaponHp: waveState.hp,
+            weaponMaxHpMult: waveState.maxHpMult,
+            weaponMastery: weapon.mastery ?? 0,
+            seed: Math.floor(rng() * 0x100000000) >>> 0,
+            balance,
+        });
+        return { stage, wave, maxWaves, weapon, waveState, spawns, replay };
+    }
+
+    /**
+     * Second half of runWave: resolve kills, rewards and the wave transition
+     * from the battle result, under the balance profile the replay was recorded with.
+     */
+    static resolveWave(evolution: EnemyEvolution, prepared: PreparedWave, result: BattleResult, rng: Rng = Math.random): WaveOutcome {
+        const { stage, wave, maxWaves, weapon, waveState, spawns, replay } = prepared;
+        const { balance } = replay;
+
+        for (const [element, damage] of Object.entries(result.telemetry.weapon.damageByElement)) {
+            if (element !== 'none' && damage > 0) evolution.logPlayerAttack(element, damage);
+        }
+        const fitness = FitnessCalculator.calculate(result, balance).totalFitness;
+
+        let mastery = weapon.mastery ?? 0;
+        let gameCleared = false;
+        const kills: KillOutcome[] = [];
+        for (const enemyResult of result.enemies) {
+            if (!enemyResult.killed) continue;
+            const i = enemyResult.index;
+            const spawn = spawns[i];
+            evolution.logEnemyDeath({
+                id: `enemy_${stage}_${wave}_${i}`,
+                genome: spawn.genome,
+                fitness: 0,
+                generation: 1,
+                traits: spawn.traits,
+            }, enemyResult.killTime, enemyResult.damageDealt);
+            mastery = FitnessCalculator.addMastery(mastery, fitness, balance);
+
+            // Story unlocks only on named boss kills
+            const story = spawn.species === 'boss' && spawn.boss ? getBossStory(stage) : null;
+            if (story && stage >= FINAL_STORY_STAGE) gameCleared = true;
+            kills.push({
+                enemyIndex: i,
+                species: spawn.species,
+                killTime: enemyResult.killTime,
+                ...this.rollKillRewards(spawn, i, fitness, rng),
+                story,
+            });
+        }
+
+        // No-heal: remaining HP carries over; a won non-final wave heals into the next
+        const afterBattle = WaveStateManager.afterBattle(waveState, result);
+        const transition = result.won && wave < maxWaves
+            ? WaveStateManager.advanceWave(afterBattle, { ...weapon, mastery }, stage, balance)
+            : null;
+
+        return {
+            stage, wave, spawns, replay, result, fitness, kills,
+            masteryAfter: mastery,
+            waveState: afterBattle,
+            transition,
+            gameCleared,
+        };
+    }
+
+    /**
+     * Run a whole stage headlessly: waves until the weapon falls or the last
+     * wave is cleared. A cleared stage ends with the enemy counter-report and
+     * resets the per-stage element tracking.
+     */
+    static runStage(input: {
+        evolution: EnemyEvolution;
+        weapon: StageWeapon;
+        stage: number;
+        maxWaves: number;
+        waveState?: WeaponWaveState;
+        rng?: Rng;
+        balance?: BalanceConfig;
+        quiet?: boolean;
+    }): StageOutcome {
+        const { evolution, stage, maxWaves, rng, balance, quiet } = input;
+        let waveState = input.waveState ?? WaveStateManager.create();
+        let mastery = input.weapon.mastery ?? 0;
+        const waves: WaveOutcome[] = [];
+
+        for (let wave = 1; wave <= maxWaves; wave++) {
+            if (waveState.hp !== null && waveState.hp <= 0) break;
+            const outcome = this.runWave({ evolution, weapon: { ...input.weapon, mastery }, stage, wave, maxWaves, waveState, rng, balance, quiet });
+            waves.push(outcome);
+            mastery = outcome.masteryAfter;
+            waveState = outcome.transition?.state ?? outcome.waveState;
+            if (!outcome.result.won) break;
+        }
+
+        const cleared = waves.length === maxWaves && waves[waves.length - 1].result.won;
+        const loot = waves.flatMap(w => w.kills.flatMap(k => k.loot ? [k.loot] : []));
+        return {
+            stage,
+            waves,
+            cleared,
+            totalKills: waves.reduce((sum, w) => sum + w.kills.length, 0),
+            genesCollected: loot.length,
+            bestFitness: loot.reduce((best, item) => Math.max(best, item.fitness), 0),
+            masteryAfter: mastery,
+            waveState,
+            counterReport: cleared ? this.completeStage(evolution, stage) : null,
+        };
+    }
+
+    /** Stage clear: enemy counter-evolution report, then reset per-stage element tracking */
+    static completeStage(evolution: EnemyEvolution, stage: number): CounterReport {
+        const report = evolution.generateCounterReport(stage);
+        evolution.resetStageTracking();
+        return report;
+    }
+
+    /** Loot + shard rolls for one kill (bosses drop more often, shards in threes) */
+    private static rollKillRewards(spawn: EnemySpawn, index: number, fitness: number, rng: Rng): Pick<KillOutcome, 'loot' | 'shard'> {
+        const tier = spawn.species === 'boss' ? 'boss' : 'normal';
+
+        let loot: Item | null = null;
+        if (rng() < LOOT_CHANCE[tier]) {
+            loot = {
+                id: `${randomId('loot', rng)}_${index}`,
+                genome: spawn.genome,
+                fitness,
+                generation: 1,
+                traits: spawn.traits.map(t => ({ ...t })),  // looted genomes keep their traits
+            };
+        }
+
+        let shard: KillOutcome['shard'] = null;
+        if (rng() < SHARD_CHANCE[tier]) {
+            const element = ItemDecoder.decode(spawn.genome, 60).element;
+            shard = { type: SHARD_BY_ELEMENT[element], count: SHARD_COUNT[tier] };
+        }
+
+        return { loot, shard };
+    }
+}
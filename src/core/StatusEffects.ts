@@ -0,0 +1,120 @@
+/**
+ * Chimera Gear: Text Edition — Status Effects
+ * Freeze / burn / shock / curse: durations, stacking rules, 1s DoT pulses
+ */
+
+import type { ElementType } from './ItemDecoder';
+import { DEFAULT_BALANCE } from './BalanceConfig';
+import { roundTime } from './mathUtils';
+
+// ========== TYPES ==========
+
+export type StatusKind = 'freeze' | 'burn' | 'shock' | 'curse';
+
+export interface StatusDefinition {
+    kind: StatusKind;
+    name: string;
+    icon: string;
+    element?: ElementType;   // elemental DoTs are reduced by the target's resistance
+    maxStacks: number;       // re-applying adds a stack up to this, and refreshes the duration
+    skipsCooldown: boolean;  // the target's cooldown does not advance while active
+}
+
+export interface StatusEffect {
+    kind: StatusKind;
+    stacks: number;
+    remaining: number;       // seconds left
+    dps: number;             // damage per second per stack, before resistance
+    nextPulse: number;       // seconds until the next DoT pulse
+    source: 'weapon' | 'enemy';
+    sourceIndex?: number;    // enemy index when an enemy applied it
+}
+
+export interface StatusPulse {
+    kind: StatusKind;
+    amount: number;
+    source: 'weapon' | 'enemy';
+    sourceIndex?: number;
+}
+
+// ========== CONSTANTS ==========
+
+export const STATUS_DEFS: Record<StatusKind, StatusDefinition> = {
+    freeze: { kind: 'freeze', name: '凍結', icon: '🧊', maxStacks: 1, skipsCooldown: true },
+    burn: { kind: 'burn', name: '炎上', icon: '🔥', element: 'Fire', maxStacks: 3, skipsCooldown: false },
+    shock: { kind: 'shock', name: '感電', icon: '⚡', element: 'Lightning', maxStacks: 1, skipsCooldown: false },
+    curse: { kind: 'curse', name: '呪詛', icon: '☠️', maxStacks: 5, skipsCooldown: false },
+};
+
+const PULSE_INTERVAL = 1.0;  // DoTs deal damage once per second
+
+// ========== CORE FUNCTIONS ==========
+
+/**
+ * Apply a status to a target's status list (mutates the list).
+ * Same kind: +1 stack up to maxStacks, duration refreshed, stronger dps kept.
+ * `maxStacks` lets a source stack lower than the status allows; it never removes stacks.
+ */
+export function applyStatus(
+    statuses: StatusEffect[],
+    kind: StatusKind,
+    duration: number,
+    dps: number,
+    source: 'weapon' | 'enemy',
+    sourceIndex?: number,
+    maxStacks: number = STATUS_DEFS[kind].maxStacks,
+): StatusEffect {
+    const existing = statuses.find(s => s.kind === kind);
+    if (existing) {
+        if (existing.stacks < Math.min(maxStacks, STATUS_DEFS[kind].maxStacks)) existing.stacks++;
+        existing.remaining = Math.max(existing.remaining, duration);
+        existing.dps = Math.max(existing.dps, dps);
+        existing.source = source;
+        existing.sourceIndex = sourceIndex;
+        return existing;
+    }
+    const effect: StatusEffect = { kind, stacks: 1, remaining: duration, dps, nextPulse: PULSE_INTERVAL, source, sourceIndex };
+    statuses.push(effect);
+    return effect;
+}
+
+/**
+ * Advance all statuses by `dt` seconds (mutates the list, dropping expired ones).
+ * Returns the DoT pulses that fired, already reduced by `getResistance`.
+ */
+export function tickStatuses(
+    statuses: StatusEffect[],
+    dt: number,
+    getResistance: (element: ElementType) => number,
+    resistScale: number = DEFAULT_BALANCE.battle.resistScale,
+): { pulses: StatusPulse[]; expired: StatusKind[] } {
+    const pulses: StatusPulse[] = [];
+    const expired: StatusKind[] = [];
+
+    for (const s of statuses) {
+        s.remaining = roundTime(s.remaining - dt);
+        if (s.dps > 0) {
+            s.nextPulse = roundTime(s.nextPulse - dt);
+            if (s.nextPulse <= 0) {
+                s.nextPulse = PULSE_INTERVAL;
+                const element = STATUS_DEFS[s.kind].element;
+                const resist = element ? getResistance(element) : 0;
+                const amount = Math.round(s.dps * s.stacks * PULSE_INTERVAL * (1 - resist * resistScale) * 10) / 10;
+                if (amount > 0) pulses.push({ kind: s.kind, amount, source: s.source, sourceIndex: s.sourceIndex });
+            }
+        }
+        if (s.remaining <= 0) expired.push(s.kind);
+    }
+
+    if (expired.length > 0) {
+        const left = statuses.filter(s => s.remaining > 0);
+        statuses.length = 0;
+        statuses.push(...left);
+    }
+    return { pulses, expired };
+}
+
+/** Whether any active status stops the target's cooldown from advancing */
+export function isActionLocked(statuses: StatusEffect[]): boolean {
+    return statuses.some(s => STATUS_DEFS[s.kind].skipsCooldown);
+}
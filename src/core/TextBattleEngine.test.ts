@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { TextBattleEngine, type BattleResult } from './TextBattleEngine';
+import { ItemDecoder } from './ItemDecoder';
+import type { Genome } from './GeneticEngine';
+import { createRng, roundTime } from './mathUtils';
+import { defineBalance } from './BalanceConfig';
+
+/** Weak, trait-less fighters so the battle runs for a while without anyone dying early */
+const fighter = (speedGene: number): Genome => [0.05, speedGene, 0.1, 0.1, 0.9, 0.5, 0.5, 0.5, 0.5, 0.5];
+
+/** Distinct times at which `actor` logged an action (the t=0 banner and the timeout line excluded) */
+const actionTimes = (result: BattleResult, actor: 'weapon' | 'enemy', maxTime: number): number[] =>
+    [...new Set(result.logs.filter(l => l.actor === actor && l.time > 0 && l.time < maxTime).map(l => l.time))];
+
+/**
+ * Reference 0.1s tick clock in whole ticks: first action at `first`, then one
+ * action every ceil(speed / 0.1) ticks — the tick engine without float drift.
+ */
+const tickClock = (first: number, speed: number, count: number): number[] => {
+    const firstTick = Math.round(first * 10);
+    const ticksPerAction = Math.ceil(roundTime(speed * 10));
+    return Array.from({ length: count }, (_, k) => (firstTick + k * ticksPerAction) / 10);
+};
+
+// The previous loop stepped `cooldown -= 0.1` without snapping, so float drift held many
+// on-grid speeds back a whole tick (0.5s acted every 0.6s, 0.9s every 1.0s) and off-grid
+// speeds were rounded up to the tick. The event scheduler matches the drift-free tick
+// clock on the grid and is exact off it, so seeded outcomes changed (replay format v8).
+describe('event-driven scheduler', () => {
+    it('matches the 0.1s tick clock when attack speeds are on the grid', () => {
+        const weapon = fighter(0.5);   // 0.9s
+        const enemy = fighter(0.75);   // 0.6s
+        const result = TextBattleEngine.runWaveBattle(weapon, [enemy], { maxTime: 20, rng: createRng(7) });
+
+        const weaponTimes = actionTimes(result, 'weapon', 20);
+        const enemyTimes = actionTimes(result, 'enemy', 20);
+        expect(weaponTimes.length).toBeGreaterThan(10);
+        expect(weaponTimes).toEqual(tickClock(0.1, ItemDecoder.decode(weapon).attackSpeed, weaponTimes.length));
+        expect(enemyTimes).toEqual(tickClock(0.3, ItemDecoder.decode(enemy).attackSpeed, enemyTimes.length));
+    });
+
+    it('keeps fractional attack speeds exact instead of rounding up to the tick', () => {
+        const weapon = fighter(0.1);
+        const speed = ItemDecoder.decode(weapon).attackSpeed;   // 1.38s
+        const result = TextBattleEngine.runWaveBattle(weapon, [fighter(0.75)], { maxTime: 20, rng: createRng(7) });
+
+        const times = actionTimes(result, 'weapon', 20);
+        expect(times.length).toBeGreaterThan(5);
+        times.forEach((t, k) => expect(t).toBe(roundTime(0.1 + k * speed)));
+        expect(times[1]).not.toBe(tickClock(0.1, speed, 2)[1]);
+    });
+
+    it('reproduces a seeded battle exactly', () => {
+        const run = () => TextBattleEngine.runWaveBattle(fighter(0.3), [fighter(0.6), fighter(0.8)], { stageLevel: 3, maxTime: 30, rng: createRng(42) });
+        expect(run()).toEqual(run());
+    });
+});
+
+describe('adaptation score', () => {
+    // Fire weapon with all-out aggression and no tactical gene: plain Fire attacks only, no mutations
+    const striker = (attackGene: number): Genome => [attackGene, 0.9, 0.1, 0.1, 0.9, 1, 0, 0, 0.5, 0.5];
+    const target = (fireResist: number): Genome => [0.05, 0.5, 0.5, 0.1, 0, 0.5, 0.5, 0.5, fireResist, 0.2];
+    const battle = (weapon: Genome, enemy: Genome, stage: number, maxTime: number) =>
+        TextBattleEngine.runBattle(weapon, enemy, { stageLevel: stage, maxTime, rng: createRng(1) });
+
+    it('is 0.5 when the weapon never landed a hit', () => {
+        expect(TextBattleEngine.getAdaptationScore({ preResist: 0, postResist: 0 })).toBe(0.5);
+        expect(battle(striker(1), target(0.5), 10, 0.05).adaptationScore).toBe(0.5);
+    });
+
+    it('is 1 against a target with no resistance to the weapon element', () => {
+        expect(battle(striker(0.05), target(0), 1, 20).adaptationScore).toBeCloseTo(1);
+    });
+
+    it('scores a one-hit fight by that hit alone', () => {
+        const result = battle(striker(1), target(0.5), 10, 45);
+        expect(result.won).toBe(true);
+        expect(result.telemetry.weapon.hits).toBe(1);
+        expect(result.adaptationScore).toBeCloseTo(1 - 0.5 * 0.8);
+    });
+
+    it('stays at the resist share over a long fight against a fixed resistance', () => {
+        const result = battle(striker(0.05), target(0.5), 1, 20);
+        expect(result.telemetry.weapon.hits).toBeGreaterThan(10);
+        expect(result.adaptationScore).toBeCloseTo(1 - 0.5 * 0.8);
+    });
+
+    it('weights each hit by its damage when the resistance improves mid-fight', () => {
+        const tally = { preResist: 0, postResist: 0 };
+        TextBattleEngine.tallyResist(tally, 100, 1);      // before: no resistance
+        TextBattleEngine.tallyResist(tally, 100, 0.6);    // after: resist 0.5 at resistScale 0.8
+        TextBattleEngine.tallyResist(tally, 200, 0.6);
+        expect(tally).toEqual({ preResist: 400, postResist: 280 });
+        expect(TextBattleEngine.getAdaptationScore(tally)).toBeCloseTo(0.7);
+    });
+});
+
+describe('battle options', () => {
+    it('takes the timeout from the balance profile unless maxTime is given', () => {
+        const balance = defineBalance({ battle: { maxTime: 5 } });
+        const short = TextBattleEngine.runBattle(fighter(0.5), fighter(0.75), { balance, quiet: true });
+        expect(short.endReason).toBe('timeout');
+        expect(short.logs[short.logs.length - 1].time).toBe(5);
+
+        const explicit = TextBattleEngine.runBattle(fighter(0.5), fighter(0.75), { balance, maxTime: 8, quiet: true });
+        expect(explicit.logs[explicit.logs.length - 1].time).toBe(8);
+    });
+});
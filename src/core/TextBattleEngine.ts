@@ -1,13 +1,19 @@
 /**
  * Chimera Gear: Text Edition — Text Battle Engine
- * tick-based auto battle with log generation
+ * event-driven auto battle with log generation
  */
 
-import { ItemDecoder, type CombatStats, type ActionType, type ElementType } from './ItemDecoder';
+import { ItemDecoder, SPECIAL_ABILITY_RULES, type BattleStats, type ActionType, type ElementType, type SpecialAbility } from './ItemDecoder';
 import type { Genome } from './GeneticEngine';
-import type { TraitInstance } from './TraitSystem';
-import { applyTraits, getTraitCombatEffects, getTraitDef } from './TraitSystem';
-import { masterySynchroBoost, masteryCritBonus, isMasteryMax } from './mathUtils';
+import type { ActiveTraitTrigger, TraitInstance } from './TraitSystem';
+import { applyTraits, getTraitCombatEffects, getTraitDef, getTraitTriggers } from './TraitSystem';
+import { masterySynchroBoost, masteryCritBonus, isMasteryMax, roundTime, type Rng } from './mathUtils';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
+import { BattleScheduler } from './BattleScheduler';
+import type { WeaponCarry } from './WaveState';
+import type { BossDefinition, BossSkill } from './BossScripts';
+import { STATUS_DEFS, applyStatus, tickStatuses, isActionLocked, type StatusEffect, type StatusKind } from './StatusEffects';
+import { LOW_HP_RATIO, createBattleTelemetry, finalizeTelemetry, recordTelemetryDamage, recordTraitProc, type BattleTelemetry, type DamageSource } from './BattleTelemetry';
 
 export interface BattleLogEntry {
     time: number;          // seconds elapsed
@@ -19,109 +25,294 @@ export interface BattleLogEntry {
     isMutation?: boolean;  // special mutation event
     isEvade?: boolean;     // dodge/evasion event
     element?: ElementType;
+    ability?: SpecialAbility;  // special ability that fired on this action
+    status?: StatusKind;       // status effect this action inflicted
     storyEra?: 'hope' | 'awakening'; // story log color tag
 }
 
+export type BattleSide = 'weapon' | 'enemy';
+
+export type BattleEventType =
+    | 'damage'      // direct hit (attack / skill / mutation / self-destruct)
+    | 'heal'        // defend repair
+    | 'dot_tick'    // DoT / HP decay
+    | 'lifesteal'
+    | 'thorn'
+    | 'trait_trigger' // conditional trait / synergy effect fired
+    | 'status'      // status effect applied (see BattleEvent.status)
+    | 'phase'       // boss script: phase change / enrage
+    | 'death'
+    | 'timeout';
+
+/** Typed battle event — carries HP snapshots of both sides after it resolved */
+export interface BattleEvent {
+    time: number;
+    type: BattleEventType;
+    source: BattleSide;
+    target: BattleSide;
+    enemyIndex?: number;   // which enemy was the source/target (multi-enemy battles)
+    amount?: number;
+    status?: StatusKind;   // 'status' events and status DoT ticks
+    weaponHp: number;
+    enemyHp: number;       // total remaining HP of all enemies
+    enemyHps: number[];    // per-enemy HP snapshot
+    logIndex: number;      // index of the latest log entry when emitted (-1 = none yet)
+}
+
+/** Per-enemy outcome of a (multi-enemy) battle */
+export interface EnemyBattleResult {
+    index: number;
+    name: string;
+    killed: boolean;
+    killTime: number;         // seconds until this enemy died (Infinity if it survived)
+    damageDealt: number;      // damage this enemy dealt to the weapon
+    damageTaken: number;      // damage the weapon's actions dealt to this enemy
+    hpRemaining: number;
+    maxHp: number;
+}
+
 export interface BattleResult {
     won: boolean;
     logs: BattleLogEntry[];
-    killTime: number;         // seconds to kill (Infinity if lost)
+    events: BattleEvent[];
+    enemies: EnemyBattleResult[];
+    killTime: number;         // seconds to kill all enemies (Infinity if lost)
     damageDealt: number;
     damageTaken: number;
     damageRatio: number;      // dealt / taken
-    adaptationScore: number;  // how well you bypassed resistances
+    adaptationScore: number;  // share of the weapon's hit damage that got past enemy resistances (0–1, 0.5 if it never hit)
+    abilityProcs: number;     // times the weapon's special ability fired
     weaponHpRemaining: number;
-    enemyHpRemaining: number;
+    enemyHpRemaining: number; // sum over all enemies
+    weaponMaxHp: number;
+    enemyMaxHp: number;       // sum over all enemies
     endReason: 'enemy_killed' | 'weapon_destroyed' | 'weapon_selfkill' | 'timeout';
+    telemetry: BattleTelemetry; // per-side action / crit / damage / healing / trait-proc counters
+}
+
+/** Battle inputs besides the genomes — every field is optional */
+interface SharedBattleOptions {
+    stageLevel?: number;            // default 1
+    maxTime?: number;               // battle timeout (s), default balance.battle.maxTime
+    weaponTraits?: TraitInstance[];
+    carry?: WeaponCarry | null;     // wave-scoped weapon state (HP + max HP modifiers) from earlier waves
+    weaponMastery?: number;
+    rng?: Rng;                      // seeded rng (see createRng) makes the battle reproducible
+    balance?: BalanceConfig;        // damage and stat-scaling constants (see BalanceConfig)
+    quiet?: boolean;                // silence the [Engine] debug warnings (simulated fights)
+}
+
+/** runBattle options — a single enemy */
+export interface BattleOptions extends SharedBattleOptions {
+    enemyTraits?: TraitInstance[];
+    enemyMastery?: number;
+    enemyBoss?: BossDefinition | null;   // scripted boss (phases, signature skills, enrage — see BossScripts)
+}
+
+/** runWaveBattle options — per-enemy fields follow the order of the enemy genomes */
+export interface WaveBattleOptions extends SharedBattleOptions {
+    enemyTraits?: TraitInstance[][];
+    enemyMasteries?: number[];
+    enemyBosses?: (BossDefinition | null)[];
+}
+
+/** A combatant's hit damage before / after the target's resistance — feeds the adaptation score */
+export interface ResistTally {
+    preResist: number;
+    postResist: number;
 }
 
 interface Combatant {
     name: string;
-    stats: CombatStats;
+    stats: BattleStats;
     currentHp: number;
     cooldown: number;  // seconds until next action
     actor: 'weapon' | 'enemy';
+    healBlocked: boolean;  // 修羅 — defend heal and lifesteal disabled
+    statuses: StatusEffect[];
+    traits: TraitState;
+    boss?: BossState;      // scripted boss (named bosses only)
+    index?: number;        // enemy index (undefined for the weapon)
+    resistTally: ResistTally;
+}
+
+/** Runtime state of a scripted boss */
+interface BossState {
+    def: BossDefinition;
+    phase: number;         // index into def.phases
+    skills: { skill: BossSkill; timer: number }[];  // active signature skills + seconds to next cast
+    enraged: boolean;
 }
 
-const MUTATION_SKILLS: { name: string; damageMultiplier: number; aoe: boolean; element?: ElementType }[] = [
+/** Trait effects + trigger state of one combatant, resolved at battle start */
+interface TraitState {
+    effects: ReturnType<typeof getTraitCombatEffects>;
+    tickTriggers: ActiveTraitTrigger[];
+    hitTriggers: ActiveTraitTrigger[];
+    actionTriggers: ActiveTraitTrigger[];
+    pendingThresholds: ActiveTraitTrigger[];  // on_threshold triggers that have not fired yet
+    dotLifesteal: boolean;
+    lifestealMult: number;    // raised by on_threshold triggers (血の渇望)
+    growthMult: number;       // cumulative on_tick growth (適者生存)
+    attackDecayMult: number;  // cumulative on_action attack decay (攻撃減衰)
+    decayAccum: number;       // HP decay not yet reported as an event
+}
+
+const MUTATION_SKILLS: {
+    name: string; damageMultiplier: number; aoe: boolean; element?: ElementType;
+    status?: { kind: StatusKind; duration: number; dpsRatio: number };  // dps = attack × dpsRatio
+}[] = [
     { name: '連鎖爆発', damageMultiplier: 0.4, aoe: true },
-    { name: 'プラズマバースト', damageMultiplier: 2.0, aoe: false, element: 'Lightning' },
-    { name: '絶対零度', damageMultiplier: 1.5, aoe: false, element: 'Ice' },
-    { name: '業火', damageMultiplier: 1.5, aoe: false, element: 'Fire' },
+    { name: 'プラズマバースト', damageMultiplier: 2.0, aoe: false, element: 'Lightning', status: { kind: 'shock', duration: 3, dpsRatio: 0.25 } },
+    { name: '絶対零度', damageMultiplier: 1.5, aoe: false, element: 'Ice', status: { kind: 'freeze', duration: 1.5, dpsRatio: 0 } },
+    { name: '業火', damageMultiplier: 1.5, aoe: false, element: 'Fire', status: { kind: 'burn', duration: 4, dpsRatio: 0.15 } },
     { name: '遺伝子共鳴', damageMultiplier: 1.8, aoe: false },
 ];
 
+const ELEMENTS: ElementType[] = ['Fire', 'Ice', 'Lightning'];
+
+/** Curse from dotOnHit (呪詛の刃) does not stack: its description promises a flat 2%/s */
+const DOT_ON_HIT_MAX_STACKS = 1;
+
+/** Piercing only counts as a proc when ignoring defense raised the hit by at least this share */
+const PIERCE_PROC_MIN_GAIN = 0.05;
+
 export class TextBattleEngine {
     /**
      * Run a single battle between weapon and enemy genomes.
      * Returns full log + result analytics.
+     * Pass a seeded `rng` (see createRng) to make the battle fully reproducible,
+     * and a `balance` profile (see BalanceConfig) to simulate alternative tuning.
      */
-    static runBattle(
+    static runBattle(weaponGenome: Genome, enemyGenome: Genome, options: BattleOptions = {}): BattleResult {
+        const { enemyTraits = [], enemyMastery = 0, enemyBoss = null, ...shared } = options;
+        return this.runWaveBattle(weaponGenome, [enemyGenome], {
+            ...shared,
+            enemyTraits: [enemyTraits],
+            enemyMasteries: [enemyMastery],
+            enemyBosses: [enemyBoss],
+        });
+    }
+
+    /**
+     * Weapon battle stats at battle start: decode → mastery (synchro + crit) → traits.
+     * Wave-persistent modifiers (WeaponCarry.maxHpMult) are applied on top by the caller.
+     */
+    static buildWeaponStats(
         weaponGenome: Genome,
-        enemyGenome: Genome,
-        stageLevel: number = 1,
-        maxTime: number = 45,
+        stageLevel: number,
         weaponTraits: TraitInstance[] = [],
-        initialWeaponHp: number | null = null,
         weaponMastery: number = 0,
-    ): BattleResult {
-        let wStats = ItemDecoder.decode(weaponGenome, ItemDecoder.getWeaponStageBase(stageLevel));
-        const eStats = ItemDecoder.decode(enemyGenome, ItemDecoder.getEnemyStageBase(stageLevel));
-
-        // Apply mastery synchro boost to weapon stats
-        const synchroMult = masterySynchroBoost(weaponMastery);
-        wStats = {
-            ...wStats,
-            attack: wStats.attack * synchroMult,
-            defense: wStats.defense * synchroMult,
-        };
-        const masteryCrit = masteryCritBonus(weaponMastery);
-        const isGolden = isMasteryMax(weaponMastery);
-
-        // Apply traits to weapon stats
-        const traitResult = applyTraits(wStats, weaponTraits);
-        wStats = traitResult.stats;
-        const traitEffects = getTraitCombatEffects(weaponTraits);
-        const activeSynergies = traitResult.activeSynergies;
-
-        const weaponName = isGolden ? '✦キメラ兵器✦' : 'キメラ兵器';
-        const weapon: Combatant = {
-            name: weaponName,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+    ): ReturnType<typeof applyTraits> {
+        return this.buildStats(weaponGenome, ItemDecoder.getWeaponStageBase(stageLevel, balance), weaponTraits, weaponMastery, balance);
+    }
+
+    /** Enemy battle stats at battle start — same pipeline as the weapon, on the enemy stage base */
+    static buildEnemyStats(
+        enemyGenome: Genome,
+        stageLevel: number,
+        enemyTraits: TraitInstance[] = [],
+        enemyMastery: number = 0,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+    ): ReturnType<typeof applyTraits> {
+        return this.buildStats(enemyGenome, ItemDecoder.getEnemyStageBase(stageLevel, balance), enemyTraits, enemyMastery, balance);
+    }
+
+    private static buildStats(
+        genome: Genome,
+        stageBase: number,
+        traits: TraitInstance[],
+        mastery: number,
+        balance: BalanceConfig,
+    ): ReturnType<typeof applyTraits> {
+        const base = ItemDecoder.decodeForBattle(genome, stageBase);
+        const synchroMult = masterySynchroBoost(mastery, balance);
+        return applyTraits({
+            ...base,
+            attack: base.attack * synchroMult,
+            defense: base.defense * synchroMult,
+            critRate: base.critRate + masteryCritBonus(mastery, balance),
+        }, traits);
+    }
+
+    /**
+     * Run one weapon against N enemies on a shared event-driven clock.
+     * The weapon picks its target each action from its AI genes (5–7);
+     * every enemy keeps its own cooldown, HP and result.
+     * Per-enemy options (`enemyTraits` / `enemyMasteries` / `enemyBosses`) follow
+     * the order of `enemyGenomes`; traits are processed identically for both sides.
+     */
+    static runWaveBattle(weaponGenome: Genome, enemyGenomes: Genome[], options: WaveBattleOptions = {}): BattleResult {
+        const {
+            stageLevel = 1, weaponTraits = [], carry = null, weaponMastery = 0,
+            enemyTraits = [], enemyMasteries = [], enemyBosses = [],
+            rng = Math.random, balance = DEFAULT_BALANCE, quiet = false,
+        } = options;
+        const maxTime = options.maxTime ?? balance.battle.maxTime;
+        const debug = (message: string) => { if (!quiet) console.warn(message); };
+
+        // Mastery + traits, then wave-persistent max HP modifiers (GD_004 etc.)
+        const traitResult = this.buildWeaponStats(weaponGenome, stageLevel, weaponTraits, weaponMastery, balance);
+        const wStats = traitResult.stats;
+        if (carry) wStats.maxHp *= carry.maxHpMult;
+        const isGolden = isMasteryMax(weaponMastery, balance);
+
+        const weapon = this.createCombatant({
+            name: isGolden ? '✦キメラ兵器✦' : 'キメラ兵器',
             stats: wStats,
-            currentHp: initialWeaponHp !== null ? Math.min(initialWeaponHp, wStats.maxHp) : wStats.maxHp,
-            cooldown: 0,
+            currentHp: carry && carry.hp !== null ? Math.min(carry.hp, wStats.maxHp) : wStats.maxHp,
+            cooldown: 0.1, // first strike at 0.1s, ahead of the staggered enemies
             actor: 'weapon',
-        };
+        }, weaponTraits, traitResult.activeTraits);
 
-        const enemy: Combatant = {
-            name: '敵個体',
-            stats: eStats,
-            currentHp: eStats.maxHp,
-            cooldown: 0.3, // enemy acts slightly later
-            actor: 'enemy',
-        };
+        const isMulti = enemyGenomes.length > 1;
+        const enemySynergies: string[][] = [];
+        const enemies: Combatant[] = enemyGenomes.map((genome, i) => {
+            const traits = enemyTraits[i] ?? [];
+            const built = this.buildEnemyStats(genome, stageLevel, traits, enemyMasteries[i] ?? 0, balance);
+            enemySynergies.push(built.activeSynergies);
+            const bossDef = enemyBosses[i] ?? null;
+            const enemy = this.createCombatant({
+                name: bossDef ? bossDef.name : isMulti ? `敵個体${String.fromCharCode(65 + i)}` : '敵個体',
+                stats: built.stats,
+                currentHp: built.stats.maxHp,
+                cooldown: 0.3 + i * 0.1, // enemies act slightly later, staggered
+                actor: 'enemy',
+                index: i,
+            }, traits, built.activeTraits);
+            if (bossDef) enemy.boss = { def: bossDef, phase: -1, skills: [], enraged: false };
+            return enemy;
+        });
+        const enemyTrack = enemies.map(() => ({ killTime: Infinity, damageDealt: 0, damageTaken: 0, dead: false }));
 
         const logs: BattleLogEntry[] = [];
+        const events: BattleEvent[] = [];
         let time = 0;
-        const tickInterval = 0.1; // 100ms ticks
+        const { resistScale } = balance.battle;
         let totalDamageDealt = 0;
         let totalDamageTaken = 0;
-        let resistedDamage = 0;
-        let totalAttempedDamage = 0;
+        let abilityProcs = 0;
+        const telemetry = createBattleTelemetry();
 
         // Opening log
-        const traitNames = weaponTraits
-            .map(t => getTraitDef(t.defId))
-            .filter(Boolean)
-            .map(d => `${d!.icon}${d!.name}`);
-        const traitInfo = traitNames.length > 0 ? ` 【${traitNames.join('/')}】` : '';
-        const synergyInfo = activeSynergies.length > 0 ? ` ✦シナジー:${activeSynergies.join(',')}` : '';
+        const enemyElements = enemies.map(e => `${ItemDecoder.getElementLabel(e.stats.element)}属性`).join('・');
 
         logs.push({
             time: 0,
             actor: 'weapon',
             action: 'attack',
-            message: `⚔️ 戦闘開始 — ${ItemDecoder.getElementLabel(wStats.element)}属性 vs ${ItemDecoder.getElementLabel(eStats.element)}属性${traitInfo}${synergyInfo}`,
+            message: `⚔️ 戦闘開始 — ${ItemDecoder.getElementLabel(wStats.element)}属性 vs ${enemyElements}${isMulti ? ` (${enemies.length}体)` : ''}${this.formatTraitInfo(weaponTraits, traitResult.activeSynergies)}`,
+        });
+        enemies.forEach((e, i) => {
+            const info = this.formatTraitInfo(enemyTraits[i] ?? [], enemySynergies[i]);
+            if (!info) return;
+            logs.push({
+                time: 0,
+                actor: 'enemy',
+                action: 'attack',
+                message: `👾 ${e.name}の特性${info}`,
+            });
         });
 
         // Mastery 100 bonus announcement
@@ -134,94 +325,483 @@ export class TextBattleEngine {
             });
         }
 
-        // Berserk tracking
-        let berserkActive = false;
+        const emit = (type: BattleEventType, source: BattleSide, target: BattleSide, amount?: number, enemyIndex?: number, status?: StatusKind) => {
+            const enemyHps = enemies.map(e => Math.max(0, e.currentHp));
+            events.push({
+                time, type, source, target, enemyIndex, amount, status,
+                weaponHp: Math.max(0, weapon.currentHp),
+                enemyHp: enemyHps.reduce((a, b) => a + b, 0),
+                enemyHps,
+                logIndex: logs.length - 1,
+            });
+        };
+
+        const isAlive = (c: Combatant) => c.actor === 'weapon' || !enemyTrack[c.index!].dead;
+        // Enemy trait logs name the enemy; weapon trait logs keep the short form
+        const owner = (c: Combatant) => c.actor === 'enemy' ? `${c.name}の` : '';
+
+        // Damage accounting: damage to an enemy counts as dealt, damage to the weapon as taken
+        const recordDamage = (target: Combatant, amount: number, sourceIndex?: number) => {
+            if (target.actor === 'enemy') {
+                totalDamageDealt += amount;
+                enemyTrack[target.index!].damageTaken += amount;
+            } else {
+                totalDamageTaken += amount;
+                if (sourceIndex !== undefined) enemyTrack[sourceIndex].damageDealt += amount;
+            }
+        };
+
+        // Telemetry: action mix, evasions and crits of a chosen action (attack / skill / defend)
+        const recordAction = (entry: BattleLogEntry) => {
+            const side = telemetry[entry.actor];
+            side.actions[entry.action]++;
+            if (entry.isEvade) side.evaded++;
+            else if (entry.action === 'attack') {
+                side.hits++;
+                if (entry.isCrit) side.crits++;
+            }
+        };
+        const damageSource = (entry: BattleLogEntry): DamageSource =>
+            entry.isMutation ? 'mutation' : entry.action === 'skill' ? 'skill' : 'attack';
+
+        const lifesteal = (c: Combatant, dmg: number) => {
+            if (c.traits.effects.lifesteal <= 0 || c.healBlocked || !isAlive(c)) return;
+            const before = c.currentHp;
+            const heal = dmg * c.traits.effects.lifesteal * c.traits.lifestealMult;
+            c.currentHp = Math.min(c.stats.maxHp, c.currentHp + heal);
+            telemetry[c.actor].healing += c.currentHp - before;
+            emit('lifesteal', c.actor, c.actor, c.currentHp - before, c.index);
+        };
+
+        // Status tick: DoT pulses + expiry for one combatant over the last `dt` seconds
+        const tickStatusesOf = (c: Combatant, dt: number) => {
+            if (c.statuses.length === 0) return;
+            const { pulses, expired } = tickStatuses(c.statuses, dt, el => this.getResistance(c, el), resistScale);
+            for (const p of pulses) {
+                const def = STATUS_DEFS[p.kind];
+                c.currentHp -= p.amount;
+                recordDamage(c, p.amount, p.sourceIndex);
+                recordTelemetryDamage(telemetry[p.source], 'dot', def.element ?? 'none', p.amount);
+                logs.push({
+                    time, actor: p.source, action: 'attack',
+                    message: `${def.icon} [${time.toFixed(1)}s] ${c.name}に${def.name}ダメージ ${p.amount}`,
+                    damage: p.amount, element: def.element,
+                });
+                emit('dot_tick', p.source, c.actor, p.amount, c.index ?? p.sourceIndex, p.kind);
+                const src = p.source === 'weapon' ? weapon : p.sourceIndex !== undefined ? enemies[p.sourceIndex] : undefined;
+                if (src?.traits.dotLifesteal) lifesteal(src, p.amount);
+            }
+            if (expired.includes('freeze') && c.currentHp > 0) {
+                logs.push({
+                    time, actor: c.actor, action: 'defend',
+                    message: `[${time.toFixed(1)}s] ${c.name}の凍結が解除`,
+                });
+            }
+        };
         let battleOver = false;
+        let selfKilled = false;
 
         // Unified death check — returns true if battle should end
         // Uses < 0.01 threshold instead of <= 0 to handle floating-point rounding errors
         const HP_DEATH_THRESHOLD = 0.01;
+
+        // Scripted bosses cannot skip a phase: HP stops at the next threshold until that phase starts
+        const gateBossHp = () => {
+            enemies.forEach((e, i) => {
+                const next = e.boss?.def.phases[e.boss.phase + 1];
+                if (!next || enemyTrack[i].dead) return;
+                e.currentHp = Math.max(e.currentHp, e.stats.maxHp * next.hpBelow);
+            });
+        };
+
         const checkDeath = (): boolean => {
             weapon.currentHp = Math.max(0, weapon.currentHp);
-            enemy.currentHp = Math.max(0, enemy.currentHp);
+            gateBossHp();
 
-            if (enemy.currentHp < HP_DEATH_THRESHOLD) {
+            enemies.forEach((enemy, i) => {
+                enemy.currentHp = Math.max(0, enemy.currentHp);
+                if (enemyTrack[i].dead || enemy.currentHp >= HP_DEATH_THRESHOLD) return;
                 enemy.currentHp = 0;
+                enemyTrack[i].dead = true;
+                enemyTrack[i].killTime = time;
                 logs.push({
                     time, actor: 'weapon', action: 'attack',
-                    message: `🏆 >> ターゲットの完全破壊を確認。`,
+                    message: isMulti
+                        ? `🏆 >> ${enemy.name}の完全破壊を確認。`
+                        : `🏆 >> ターゲットの完全破壊を確認。`,
                 });
-                console.warn(`[Engine] checkDeath: enemy killed at t=${time.toFixed(1)}s (eHP=${enemy.currentHp})`);
-                return true;
-            }
+                emit('death', 'weapon', 'enemy', undefined, i);
+                debug(`[Engine] checkDeath: ${enemy.name} killed at t=${time.toFixed(1)}s`);
+            });
+            if (enemyTrack.every(t => t.dead)) return true;
+
             if (weapon.currentHp < HP_DEATH_THRESHOLD) {
                 weapon.currentHp = 0;
                 logs.push({
                     time, actor: 'weapon', action: 'defend',
                     message: `💀 >> 深刻な損傷。強制撤退します。`,
                 });
-                console.warn(`[Engine] checkDeath: weapon destroyed at t=${time.toFixed(1)}s (wHP=${weapon.currentHp})`);
+                emit('death', 'enemy', 'weapon');
+                debug(`[Engine] checkDeath: weapon destroyed at t=${time.toFixed(1)}s (wHP=${weapon.currentHp})`);
+                return true;
+            }
+            return false;
+        };
+
+        // === Trait: HP decay per second — returns true if the combatant destroyed itself ===
+        const tickHpDecay = (c: Combatant, dt: number): boolean => {
+            if (c.traits.effects.hpDecayPerSec <= 0) return false;
+            const decay = c.stats.maxHp * c.traits.effects.hpDecayPerSec * dt;
+            c.currentHp = Math.max(0, c.currentHp - decay);
+            c.traits.decayAccum += decay;
+            if (c.currentHp < HP_DEATH_THRESHOLD) {
+                c.currentHp = 0;
+                logs.push({
+                    time, actor: c.actor, action: 'defend',
+                    message: `💀 >> ${c.name}は自壊した…`,
+                });
+                emit('dot_tick', c.actor, c.actor, c.traits.decayAccum, c.index);
                 return true;
             }
+            // Report decay once per second to keep the event stream compact
+            if (Number.isInteger(time)) {
+                emit('dot_tick', c.actor, c.actor, c.traits.decayAccum, c.index);
+                c.traits.decayAccum = 0;
+            }
             return false;
         };
 
+        // === Trait triggers: on_tick (cumulative growth) ===
+        const runTickTriggers = (c: Combatant) => {
+            for (const t of c.traits.tickTriggers) {
+                if (!t.interval || !t.statGrowth || !Number.isInteger(time / t.interval)) continue;
+                const g = 1 + t.statGrowth;
+                c.traits.growthMult *= g;
+                c.stats.attack *= g;
+                c.stats.defense *= g;
+                c.currentHp += c.stats.maxHp * t.statGrowth;
+                c.stats.maxHp *= g;
+                logs.push({
+                    time, actor: c.actor, action: 'attack',
+                    message: `${t.icon} [${time.toFixed(1)}s] ${owner(c)}${t.source}：全ステータス+${Math.round(t.statGrowth * 100)}% (累積×${c.traits.growthMult.toFixed(2)})`,
+                });
+                recordTraitProc(telemetry[c.actor], t.source);
+                emit('trait_trigger', c.actor, c.actor, undefined, c.index);
+            }
+        };
+
+        // === Trait triggers: on_threshold (fire once, stay active) ===
+        const runThresholdTriggers = (c: Combatant) => {
+            const pending = c.traits.pendingThresholds;
+            for (let k = pending.length - 1; k >= 0; k--) {
+                const t = pending[k];
+                if (c.currentHp / c.stats.maxHp > (t.hpBelow ?? 0)) continue;
+                pending.splice(k, 1);
+                if (t.statMods?.attack) c.stats.attack *= Math.max(0, 1 + t.statMods.attack);
+                if (t.statMods?.defense) c.stats.defense *= Math.max(0, 1 + t.statMods.defense);
+                if (t.lifestealMult) c.traits.lifestealMult *= t.lifestealMult;
+                logs.push({
+                    time, actor: c.actor, action: 'attack',
+                    message: `${t.icon} [${time.toFixed(1)}s] ${owner(c)}${t.source}発動！ ${t.desc}`,
+                });
+                recordTraitProc(telemetry[c.actor], t.source);
+                emit('trait_trigger', c.actor, c.actor, undefined, c.index);
+            }
+        };
+
+        // === Trait triggers: on_action (before) — element re-rolled every action ===
+        const runElementShift = (c: Combatant) => {
+            for (const t of c.traits.actionTriggers) {
+                if (!t.elementShift) continue;
+                const next = ELEMENTS[Math.floor(rng() * ELEMENTS.length)];
+                if (next === c.stats.element) continue;
+                logs.push({
+                    time, actor: c.actor, action: 'attack',
+                    message: `${t.icon} [${time.toFixed(1)}s] ${owner(c)}${t.source}：属性が${ItemDecoder.getElementLabel(c.stats.element)}から${ItemDecoder.getElementLabel(next)}に変化`,
+                });
+                c.stats.element = next;
+                recordTraitProc(telemetry[c.actor], t.source);
+            }
+        };
+
+        // === Trait triggers: on_action (after) — attack decays after every action ===
+        const runAttackDecay = (c: Combatant) => {
+            for (const t of c.traits.actionTriggers) {
+                if (!t.attackDecay) continue;
+                c.stats.attack *= 1 - t.attackDecay;
+                c.traits.attackDecayMult *= 1 - t.attackDecay;
+                logs.push({
+                    time, actor: c.actor, action: 'defend',
+                    message: `${t.icon} [${time.toFixed(1)}s] ${owner(c)}${t.source}：攻撃力 -${Math.round(t.attackDecay * 100)}% (累積×${c.traits.attackDecayMult.toFixed(2)})`,
+                });
+                recordTraitProc(telemetry[c.actor], t.source);
+            }
+        };
+
+        // Attacker-side traits after a damaging hit: lifesteal, curse DoT, on_hit triggers
+        const applyOnHit = (attacker: Combatant, target: Combatant, damage: number) => {
+            const enemyIndex = attacker.index ?? target.index;
+            lifesteal(attacker, damage);
+
+            // === Trait: DoT on hit (curse status) ===
+            if (attacker.traits.effects.dotOnHit > 0 && target.currentHp > 0) {
+                applyStatus(target.statuses, 'curse', 3, target.stats.maxHp * attacker.traits.effects.dotOnHit, attacker.actor, attacker.index, DOT_ON_HIT_MAX_STACKS);
+                emit('status', attacker.actor, target.actor, undefined, enemyIndex, 'curse');
+            }
+
+            // === Trait triggers: on_hit (freeze) ===
+            for (const t of attacker.traits.hitTriggers) {
+                if (!t.freeze || target.currentHp <= 0 || rng() >= (t.chance ?? 1)) continue;
+                applyStatus(target.statuses, 'freeze', t.freeze, 0, attacker.actor, attacker.index);
+                logs.push({
+                    time, actor: attacker.actor, action: 'attack',
+                    message: `${t.icon} [${time.toFixed(1)}s] ${owner(attacker)}${t.source}！ ${target.name}が${t.freeze}秒間凍結`,
+                });
+                recordTraitProc(telemetry[attacker.actor], t.source);
+                emit('status', attacker.actor, target.actor, undefined, enemyIndex, 'freeze');
+            }
+        };
+
+        // Defender-side traits after taking a hit: self-destruct, thorns
+        const applyOnDamaged = (defender: Combatant, attacker: Combatant, damage: number) => {
+            const effects = defender.traits.effects;
+
+            // === Trait: Self-destruct on hit ===
+            if (effects.selfDestructChance > 0 && rng() < effects.selfDestructChance) {
+                const selfDmg = Math.round(defender.stats.maxHp * 0.25);
+                defender.currentHp -= selfDmg;
+                logs.push({
+                    time, actor: defender.actor, action: 'attack',
+                    message: `☢️ [${time.toFixed(1)}s] ${owner(defender)}不安定な核が暴走！ 自爆ダメージ ${selfDmg}`,
+                    damage: selfDmg,
+                });
+                emit('damage', defender.actor, defender.actor, selfDmg, defender.index);
+            }
+
+            // === Trait: Thorn damage ===
+            if (effects.thornDmg > 0 && attacker.currentHp > 0) {
+                const thornDmg = Math.round(damage * effects.thornDmg * 10) / 10;
+                attacker.currentHp -= thornDmg;
+                recordDamage(attacker, thornDmg, defender.index);
+                recordTelemetryDamage(telemetry[defender.actor], 'thorns', 'none', thornDmg);
+                emit('thorn', defender.actor, attacker.actor, thornDmg, defender.index ?? attacker.index);
+            }
+        };
+
+        // === Boss script: phase entry — element shift, stat mods, heal, new signature skills ===
+        const enterBossPhase = (c: Combatant, phaseIdx: number) => {
+            const boss = c.boss!;
+            const phase = boss.def.phases[phaseIdx];
+            boss.phase = phaseIdx;
+            boss.skills = phase.skills.map(skill => ({ skill, timer: skill.interval }));
+
+            const notes: string[] = [];
+            if (phase.element) {
+                // 'adaptive' picks the weapon's weakest resistance
+                const next = phase.element === 'adaptive'
+                    ? ELEMENTS.reduce((best, el) => this.getResistance(weapon, el) < this.getResistance(weapon, best) ? el : best)
+                    : phase.element;
+                if (next !== c.stats.element) {
+                    notes.push(`属性が${ItemDecoder.getElementLabel(next)}に変化`);
+                    c.stats.element = next;
+                }
+            }
+            if (phase.statMods?.attack) c.stats.attack *= Math.max(0, 1 + phase.statMods.attack);
+            if (phase.statMods?.defense) c.stats.defense *= Math.max(0, 1 + phase.statMods.defense);
+            if (phase.statMods?.attackSpeed) c.stats.attackSpeed = Math.max(0.1, c.stats.attackSpeed * (1 + phase.statMods.attackSpeed));
+            const hpBefore = c.currentHp;
+            if (phase.heal) c.currentHp = Math.min(c.stats.maxHp, c.currentHp + c.stats.maxHp * phase.heal);
+            const healed = c.currentHp - hpBefore;
+            telemetry.enemy.healing += healed;
+            if (healed > 0) notes.push(`HP ${Math.round(healed * 10) / 10} 回復`);
+
+            logs.push({
+                time, actor: 'enemy', action: 'skill',
+                message: `👑 [${time.toFixed(1)}s] ${c.name} — 【${phase.name}】 ${phase.message}${notes.length > 0 ? ` (${notes.join('・')})` : ''}`,
+            });
+            emit('phase', 'enemy', 'enemy', undefined, c.index);
+            if (healed > 0) emit('heal', 'enemy', 'enemy', healed, c.index);
+        };
+
+        // === Boss script: signature skill — unavoidable, on its own timer ===
+        const castBossSkill = (c: Combatant, skill: BossSkill) => {
+            const element = skill.element ?? c.stats.element;
+            let damage = 0;
+            let affinity = 1;
+            if (skill.currentHpRatio) {
+                damage = weapon.currentHp * skill.currentHpRatio;
+            } else if (skill.damageMultiplier > 0) {
+                const resist = this.getResistance(weapon, element);
+                const defRed = skill.ignoresDefense ? 1 : this.getDefenseReduction(c, weapon, balance);
+                affinity = ItemDecoder.getAffinity(element, weapon.stats.element, balance);
+                damage = c.stats.attack * skill.damageMultiplier * (1 - resist * resistScale) * affinity * defRed;
+                this.tallyResist(c.resistTally, c.stats.attack * skill.damageMultiplier * affinity * defRed, 1 - resist * resistScale);
+            }
+            damage = Math.round(damage * 10) / 10;
+            weapon.currentHp -= damage;
+
+            let statusNote = '';
+            if (skill.status && weapon.currentHp > 0) {
+                const st = skill.status;
+                const effect = applyStatus(weapon.statuses, st.kind, st.duration, c.stats.attack * st.dpsRatio, 'enemy', c.index);
+                const def = STATUS_DEFS[st.kind];
+                statusNote = ` ${def.icon}${def.name}(${st.duration}秒${effect.stacks > 1 ? `・${effect.stacks}層` : ''})`;
+            }
+            const hpBefore = c.currentHp;
+            if (skill.heal) c.currentHp = Math.min(c.stats.maxHp, c.currentHp + c.stats.maxHp * skill.heal);
+            const healed = c.currentHp - hpBefore;
+            telemetry.enemy.actions.skill++;
+            telemetry.enemy.healing += healed;
+            recordTelemetryDamage(telemetry.enemy, 'skill', element, damage);
+
+            const tag = damage > 0 ? this.getElementTag(element) : '👑';
+            logs.push({
+                time, actor: 'enemy', action: 'skill',
+                message: `${tag} [${time.toFixed(1)}s] ${c.name}の【${skill.name}】！${damage > 0 ? ` ${weapon.name}に${damage}ダメージ${this.getAffinityNote(affinity)}` : ''}${statusNote}${healed > 0 ? ` HP ${Math.round(healed * 10) / 10} 回復` : ''}`,
+                damage: damage > 0 ? damage : undefined,
+                element: damage > 0 ? element : undefined,
+                status: statusNote ? skill.status!.kind : undefined,
+            });
+            if (damage > 0) {
+                recordDamage(weapon, damage, c.index);
+                emit('damage', 'enemy', 'weapon', damage, c.index);
+            }
+            if (statusNote) emit('status', 'enemy', 'weapon', undefined, c.index, skill.status!.kind);
+            if (healed > 0) emit('heal', 'enemy', 'enemy', healed, c.index);
+            if (damage > 0) {
+                applyOnHit(c, weapon, damage);
+                applyOnDamaged(weapon, c, damage);
+            }
+        };
+
+        // === Boss script: HP-threshold phases, enrage timer, signature skill timers ===
+        const runBossScript = (c: Combatant) => {
+            const boss = c.boss!;
+            const phases = boss.def.phases;
+            while (boss.phase + 1 < phases.length && c.currentHp / c.stats.maxHp <= phases[boss.phase + 1].hpBelow) {
+                enterBossPhase(c, boss.phase + 1);
+            }
+
+            const enrage = boss.def.enrage;
+            if (enrage && !boss.enraged && time >= enrage.time) {
+                boss.enraged = true;
+                c.stats.attack *= enrage.attackMult;
+                c.stats.attackSpeed = Math.max(0.1, c.stats.attackSpeed / enrage.speedMult);
+                logs.push({
+                    time, actor: 'enemy', action: 'skill',
+                    message: `💢 [${time.toFixed(1)}s] ${c.name}が激昂！ ${enrage.message} (攻撃力×${enrage.attackMult}・速度×${enrage.speedMult})`,
+                });
+                emit('phase', 'enemy', 'enemy', undefined, c.index);
+            }
+
+            // Frozen bosses hold their skills (timers already stood still in advanceClocks)
+            if (isActionLocked(c.statuses)) return;
+            for (const s of boss.skills) {
+                if (s.timer > 0 || weapon.currentHp <= 0) continue;
+                s.timer = s.skill.interval;
+                castBossSkill(c, s.skill);
+            }
+        };
+
+        const hasBoss = enemies.some(e => e.boss);
+        enemies.forEach(e => { if (e.boss) enterBossPhase(e, 0); });
+
+        // Each combatant is keyed by the next time anything happens to it (see nextEventTime)
+        const combatants = [weapon, ...enemies];
+        const scheduler = new BattleScheduler<Combatant>();
+        const reschedule = () => {
+            for (const c of combatants) {
+                if (isAlive(c)) scheduler.schedule(c, this.nextEventTime(c, time));
+                else scheduler.cancel(c);
+            }
+        };
+
+        // Cooldowns and boss skill timers run over (previous event, now]; frozen clocks stand still
+        const advanceClocks = (c: Combatant, dt: number) => {
+            if (isActionLocked(c.statuses)) return;
+            c.cooldown = roundTime(c.cooldown - dt);
+            for (const s of c.boss?.skills ?? []) s.timer = roundTime(s.timer - dt);
+        };
+
+        reschedule();
         while (time < maxTime && !battleOver) {
-            time = Math.round((time + tickInterval) * 100) / 100;
+            // Jump straight to the next event — nothing happens in between
+            const next = Math.min(scheduler.peekTime(), maxTime);
+            const dt = roundTime(next - time);
+            time = roundTime(next);
+            for (const c of combatants) {
+                if (!isAlive(c)) continue;
+                // HP held since the previous event, so the whole step counts at that level
+                if (c.currentHp / c.stats.maxHp < LOW_HP_RATIO) telemetry[c.actor].lowHpTime += dt;
+                advanceClocks(c, dt);
+            }
 
             // === Trait: HP decay per second ===
-            if (traitEffects.hpDecayPerSec > 0) {
-                weapon.currentHp -= weapon.stats.maxHp * traitEffects.hpDecayPerSec * tickInterval;
-                weapon.currentHp = Math.max(0, weapon.currentHp);
-                if (weapon.currentHp < HP_DEATH_THRESHOLD) {
-                    weapon.currentHp = 0;
-                    logs.push({
-                        time, actor: 'weapon', action: 'defend',
-                        message: `💀 >> キメラ兵器は自壊した…`,
-                    });
-                    console.warn(`[Engine] HP decay self-destruct at t=${time.toFixed(1)}s`);
-                    battleOver = true;
-                    break;
-                }
+            if (tickHpDecay(weapon, dt)) {
+                emit('death', 'weapon', 'weapon');
+                debug(`[Engine] HP decay self-destruct at t=${time.toFixed(1)}s`);
+                selfKilled = true;
+                battleOver = true;
+                break;
             }
+            enemies.forEach((e, i) => { if (!enemyTrack[i].dead) tickHpDecay(e, dt); });
 
-            // === Trait: Berserk activation ===
-            if (traitEffects.berserkThreshold > 0 && !berserkActive) {
-                if (weapon.currentHp / weapon.stats.maxHp <= traitEffects.berserkThreshold) {
-                    berserkActive = true;
-                    weapon.stats.attack *= 2;
-                    weapon.stats.defense = 0;
-                    logs.push({
-                        time, actor: 'weapon', action: 'attack',
-                        message: `👹 [${time.toFixed(1)}s] 狂戦士化発動！ 攻撃力2倍・防御0`,
-                    });
-                }
+            // === Status effects: DoT pulses + expiry ===
+            tickStatusesOf(weapon, dt);
+            enemies.forEach((e, i) => { if (!enemyTrack[i].dead) tickStatusesOf(e, dt); });
+            if (checkDeath()) { battleOver = true; break; }
+
+            // === Trait triggers: on_tick + on_threshold, both sides ===
+            for (const c of combatants) {
+                if (!isAlive(c)) continue;
+                runTickTriggers(c);
+                runThresholdTriggers(c);
+            }
+
+            // === Boss scripts: phases, enrage, signature skills ===
+            if (hasBoss) {
+                enemies.forEach(e => { if (e.boss && isAlive(e)) runBossScript(e); });
+                if (checkDeath()) { battleOver = true; break; }
             }
 
             // ── Weapon action phase ──
-            weapon.cooldown -= tickInterval;
-            if (weapon.cooldown <= 0) {
-                const action = this.selectAction(weapon, enemy, weaponGenome);
-                const logEntry = this.executeAction(weapon, enemy, action, time, weaponGenome, masteryCrit);
+            if (weapon.cooldown <= 0 && !isActionLocked(weapon.statuses)) {
+                runElementShift(weapon);
+
+                const targetIdx = this.selectTarget(weapon, enemies, weaponGenome);
+                const target = enemies[targetIdx];
+                const bystanders = enemies.filter((_, i) => i !== targetIdx && !enemyTrack[i].dead);
+                const action = this.selectAction(weapon, target, weaponGenome, balance, rng);
+                const hpBefore = weapon.currentHp;
+                const enemyHpBefore = enemies.map(e => e.currentHp);
+                const logEntry = this.executeAction(weapon, target, action, time, weaponGenome, balance, rng, bystanders);
+                gateBossHp();
                 if (logEntry) {
                     logs.push(logEntry);
-                    if (logEntry.damage && logEntry.actor === 'weapon') {
-                        totalDamageDealt += logEntry.damage;
+                    recordAction(logEntry);
+                    if (logEntry.ability) abilityProcs++;
+                    if (action === 'defend') {
+                        telemetry.weapon.healing += weapon.currentHp - hpBefore;
+                        emit('heal', 'weapon', 'weapon', weapon.currentHp - hpBefore);
+                    }
+                    if (logEntry.status) emit('status', 'weapon', 'enemy', undefined, targetIdx, logEntry.status);
 
-                        // === Trait: Lifesteal ===
-                        if (traitEffects.lifesteal > 0) {
-                            const heal = logEntry.damage * traitEffects.lifesteal;
-                            weapon.currentHp = Math.min(weapon.stats.maxHp, weapon.currentHp + heal);
-                        }
+                    // Per-enemy damage (primary hit + AoE / splash)
+                    enemies.forEach((e, i) => {
+                        const dealt = enemyHpBefore[i] - e.currentHp;
+                        if (dealt <= 0) return;
+                        recordDamage(e, dealt);
+                        recordTelemetryDamage(telemetry.weapon, damageSource(logEntry), logEntry.element ?? 'none', dealt);
+                        emit('damage', 'weapon', 'enemy', dealt, i);
+                    });
 
-                        // === Trait: DoT on hit ===
-                        if (traitEffects.dotOnHit > 0) {
-                            const dotDmg = Math.round(enemy.stats.maxHp * traitEffects.dotOnHit * 10) / 10;
-                            enemy.currentHp -= dotDmg;
-                        }
+                    if (logEntry.damage && logEntry.actor === 'weapon') {
+                        applyOnHit(weapon, target, logEntry.damage);
+                        applyOnDamaged(target, weapon, logEntry.damage);
                     }
                 }
                 weapon.cooldown = weapon.stats.attackSpeed;
+                runAttackDecay(weapon);
 
                 // Check death after weapon action + traits
                 if (checkDeath()) { battleOver = true; break; }
@@ -230,62 +810,59 @@ export class TextBattleEngine {
             // ── Enemy action phase (only if battle not over) ──
             if (battleOver) break;
 
-            enemy.cooldown -= tickInterval;
-            if (enemy.cooldown <= 0) {
-                const action = this.selectAction(enemy, weapon, enemyGenome);
-                const logEntry = this.executeAction(enemy, weapon, action, time, enemyGenome);
+            for (let i = 0; i < enemies.length; i++) {
+                const enemy = enemies[i];
+                if (enemyTrack[i].dead) continue;
+
+                if (enemy.cooldown > 0 || isActionLocked(enemy.statuses)) continue;
+
+                runElementShift(enemy);
+                const action = this.selectAction(enemy, weapon, enemyGenomes[i], balance, rng);
+                const hpBefore = enemy.currentHp;
+                const logEntry = this.executeAction(enemy, weapon, action, time, enemyGenomes[i], balance, rng, []);
                 if (logEntry) {
                     logs.push(logEntry);
+                    recordAction(logEntry);
+                    if (action === 'defend') {
+                        telemetry.enemy.healing += enemy.currentHp - hpBefore;
+                        emit('heal', 'enemy', 'enemy', enemy.currentHp - hpBefore, i);
+                    }
+                    if (logEntry.status) emit('status', 'enemy', 'weapon', undefined, i, logEntry.status);
                     if (logEntry.damage && logEntry.actor === 'enemy') {
-                        totalDamageTaken += logEntry.damage;
-
-                        // === Trait: Self-destruct on hit ===
-                        if (traitEffects.selfDestructChance > 0 && Math.random() < traitEffects.selfDestructChance) {
-                            const selfDmg = Math.round(weapon.stats.maxHp * 0.25);
-                            weapon.currentHp -= selfDmg;
-                            logs.push({
-                                time, actor: 'weapon', action: 'attack',
-                                message: `☢️ [${time.toFixed(1)}s] 不安定な核が暴走！ 自爆ダメージ ${selfDmg}`,
-                                damage: selfDmg,
-                            });
-                        }
-
-                        // === Trait: Thorn damage ===
-                        if (traitEffects.thornDmg > 0) {
-                            const thornDmg = Math.round(logEntry.damage * traitEffects.thornDmg * 10) / 10;
-                            enemy.currentHp -= thornDmg;
-                        }
+                        recordDamage(weapon, logEntry.damage, i);
+                        recordTelemetryDamage(telemetry.enemy, damageSource(logEntry), logEntry.element ?? 'none', logEntry.damage);
+                        emit('damage', 'enemy', 'weapon', logEntry.damage, i);
+                        applyOnHit(enemy, weapon, logEntry.damage);
+                        applyOnDamaged(weapon, enemy, logEntry.damage);
                     }
                 }
                 enemy.cooldown = enemy.stats.attackSpeed;
+                runAttackDecay(enemy);
 
                 // Check death after enemy action + traits
                 if (checkDeath()) { battleOver = true; break; }
             }
 
-            // Track resisted damage for adaptation score
-            totalAttempedDamage += totalDamageDealt;
+            reschedule();
         }
 
+        const allKilled = enemyTrack.every(t => t.dead);
+
         // Determine end reason
         let endReason: BattleResult['endReason'];
-        if (enemy.currentHp < HP_DEATH_THRESHOLD) {
+        if (allKilled) {
             endReason = 'enemy_killed';
         } else if (weapon.currentHp < HP_DEATH_THRESHOLD) {
-            const lastLog = logs[logs.length - 1];
-            endReason = lastLog?.message.includes('自壊') ? 'weapon_selfkill' : 'weapon_destroyed';
+            endReason = selfKilled ? 'weapon_selfkill' : 'weapon_destroyed';
         } else {
             endReason = 'timeout';
         }
 
-        const won = enemy.currentHp < HP_DEATH_THRESHOLD && weapon.currentHp >= HP_DEATH_THRESHOLD;
+        const won = allKilled && weapon.currentHp >= HP_DEATH_THRESHOLD;
         const killTime = won ? time : Infinity;
         const damageRatio = totalDamageTaken > 0 ? totalDamageDealt / totalDamageTaken : totalDamageDealt > 0 ? 999 : 1;
 
-        // Adaptation score: how much damage got through vs resisted
-        const adaptationScore = totalAttempedDamage > 0
-            ? 1.0 - (resistedDamage / Math.max(1, totalAttempedDamage))
-            : 0.5;
+        const adaptationScore = this.getAdaptationScore(weapon.resistTally);
 
         // End log — only for timeout (HP0 cases already logged by checkDeath)
         if (endReason === 'timeout') {
@@ -295,29 +872,170 @@ export class TextBattleEngine {
                 action: 'attack',
                 message: `⏱️ >> タイムアウト — 決着つかず`,
             });
-            console.warn(`[Engine] timeout at t=${time.toFixed(1)}s (wHP=${weapon.currentHp.toFixed(1)}, eHP=${enemy.currentHp.toFixed(1)})`);
+            emit('timeout', 'weapon', 'enemy');
+            debug(`[Engine] timeout at t=${time.toFixed(1)}s (wHP=${weapon.currentHp.toFixed(1)})`);
         }
 
+        const enemyResults: EnemyBattleResult[] = enemies.map((e, i) => ({
+            index: i,
+            name: e.name,
+            killed: enemyTrack[i].dead,
+            killTime: enemyTrack[i].killTime,
+            damageDealt: enemyTrack[i].damageDealt,
+            damageTaken: enemyTrack[i].damageTaken,
+            hpRemaining: Math.max(0, e.currentHp),
+            maxHp: e.stats.maxHp,
+        }));
+
         return {
             won,
             logs,
+            events,
+            enemies: enemyResults,
             killTime,
             damageDealt: totalDamageDealt,
             damageTaken: totalDamageTaken,
             damageRatio,
             adaptationScore,
+            abilityProcs,
             weaponHpRemaining: Math.max(0, weapon.currentHp),
-            enemyHpRemaining: Math.max(0, enemy.currentHp),
+            enemyHpRemaining: enemyResults.reduce((sum, e) => sum + e.hpRemaining, 0),
+            weaponMaxHp: weapon.stats.maxHp,
+            enemyMaxHp: enemyResults.reduce((sum, e) => sum + e.maxHp, 0),
             endReason,
+            telemetry: finalizeTelemetry(telemetry),
+        };
+    }
+
+    /**
+     * Earliest future time anything happens to a combatant: its next action, a status
+     * pulse or expiry, an HP-decay report or self-destruct, an on_tick trigger, or a
+     * boss skill / enrage. Frozen combatants have no pending action or skill —
+     * the freeze expiry wakes them. Infinity if nothing is pending.
+     * Decay-driven on_threshold crossings are picked up at the next event (at most 1s later).
+     */
+    private static nextEventTime(c: Combatant, time: number): number {
+        let next = Infinity;
+        const locked = isActionLocked(c.statuses);
+        if (!locked) next = this.earlierEvent(next, time, time + c.cooldown);
+
+        for (const s of c.statuses) {
+            next = this.earlierEvent(next, time, time + s.remaining);
+            if (s.dps > 0) next = this.earlierEvent(next, time, time + s.nextPulse);
+        }
+
+        const decayPerSec = c.stats.maxHp * c.traits.effects.hpDecayPerSec;
+        if (decayPerSec > 0) {
+            next = this.earlierEvent(next, time, Math.floor(time) + 1);
+            next = this.earlierEvent(next, time, time + c.currentHp / decayPerSec);
+        }
+
+        for (const t of c.traits.tickTriggers) {
+            if (!t.interval || !t.statGrowth) continue;
+            next = this.earlierEvent(next, time, (Math.floor(roundTime(time / t.interval)) + 1) * t.interval);
+        }
+
+        if (c.boss) {
+            const enrage = c.boss.def.enrage;
+            if (enrage && !c.boss.enraged) next = this.earlierEvent(next, time, enrage.time);
+            if (!locked) for (const s of c.boss.skills) next = this.earlierEvent(next, time, time + s.timer);
+        }
+        return next;
+    }
+
+    /** `candidate` (snapped) if it is still in the future and earlier than `next` */
+    private static earlierEvent(next: number, time: number, candidate: number): number {
+        const at = roundTime(candidate);
+        return at > time && at < next ? at : next;
+    }
+
+    /**
+     * Build a combatant with its trait state. Combat effects read every owned trait;
+     * triggers only come from traits that survived the capacity check.
+     */
+    private static createCombatant(
+        base: Pick<Combatant, 'name' | 'stats' | 'currentHp' | 'cooldown' | 'actor' | 'index'>,
+        traits: TraitInstance[],
+        activeTraits: TraitInstance[],
+    ): Combatant {
+        const triggers = getTraitTriggers(activeTraits);
+        const hitTriggers = triggers.filter(t => t.on === 'on_hit');
+        return {
+            ...base,
+            healBlocked: triggers.some(t => t.on === 'on_defend' && t.blockHeal),
+            statuses: [],
+            resistTally: { preResist: 0, postResist: 0 },
+            traits: {
+                effects: getTraitCombatEffects(traits),
+                tickTriggers: triggers.filter(t => t.on === 'on_tick'),
+                hitTriggers,
+                actionTriggers: triggers.filter(t => t.on === 'on_action'),
+                pendingThresholds: triggers.filter(t => t.on === 'on_threshold'),
+                dotLifesteal: hitTriggers.some(t => t.dotLifesteal),
+                lifestealMult: 1,
+                growthMult: 1,
+                attackDecayMult: 1,
+                decayAccum: 0,
+            },
         };
     }
 
-    /** Select action based on genome AI personality */
+    /** Opening-log suffix: ` 【icon name/...】 ✦シナジー:...` ('' without traits) */
+    private static formatTraitInfo(traits: TraitInstance[], synergies: string[]): string {
+        const traitNames = traits
+            .map(t => getTraitDef(t.defId))
+            .filter(Boolean)
+            .map(d => `${d!.icon}${d!.name}`);
+        const traitInfo = traitNames.length > 0 ? ` 【${traitNames.join('/')}】` : '';
+        const synergyInfo = synergies.length > 0 ? ` ✦シナジー:${synergies.join(',')}` : '';
+        return traitInfo + synergyInfo;
+    }
+
+    /**
+     * Pick which living enemy to act on, from the AI genes:
+     * [5] aggression → finish off the weakest, [6] defense instinct → remove
+     * the biggest threat, [7] tactical variety → exploit the lowest resistance.
+     */
+    private static selectTarget(actor: Combatant, enemies: Combatant[], genome: Genome): number {
+        const alive = enemies
+            .map((e, i) => ({ e, i }))
+            .filter(({ e }) => e.currentHp > 0);
+        if (alive.length <= 1) return alive[0]?.i ?? 0;
+
+        const [aggr, def, tact] = [genome[5], genome[6], genome[7]];
+        let score: (e: Combatant) => number;
+        if (aggr >= def && aggr >= tact) {
+            score = e => -e.currentHp;
+        } else if (def >= tact) {
+            score = e => e.stats.attack / e.stats.attackSpeed;
+        } else {
+            score = e => -this.getResistance(e, actor.stats.element);
+        }
+
+        let best = alive[0];
+        for (const cand of alive) {
+            if (score(cand.e) > score(best.e)) best = cand;
+        }
+        return best.i;
+    }
+
+    /**
+     * Select an action from the genome AI personality.
+     * The AI genes set the base action mix, then a one-step lookahead re-weights it —
+     * each gene also scales how well the actor reads its situation:
+     * [5] aggression → commit to finishing blows and free hits on a locked target,
+     * [6] defense instinct → brace before a heavy incoming hit, never heal at full HP,
+     * [7] tactical variety → reach for skills when the matchup or resistance is bad,
+     *     and outlast damage-over-time.
+     */
     private static selectAction(
         actor: Combatant,
-        _target: Combatant,
-        genome: Genome
+        target: Combatant,
+        genome: Genome,
+        balance: BalanceConfig,
+        rng: Rng,
     ): ActionType {
+        const [aggr, defInstinct, tact] = [genome[5], genome[6], genome[7]];
         const hpRatio = actor.currentHp / actor.stats.maxHp;
 
         // Base weights from genome
@@ -326,8 +1044,40 @@ export class TextBattleEngine {
         let skillWeight = actor.stats.tacticalWeight;
 
         // Low HP boosts defense instinct
-        if (hpRatio < 0.3) {
-            defWeight *= (1 + genome[6] * 3); // Defense instinct gene amplifies
+        if (hpRatio < LOW_HP_RATIO) {
+            defWeight *= (1 + defInstinct * 3); // Defense instinct gene amplifies
+        }
+
+        // ── Lookahead: what each option is worth right now ──
+        const attackDmg = this.estimateDamage(actor, target, balance);
+        const incomingDmg = this.estimateDamage(target, actor, balance);
+        const healValue = actor.healBlocked ? 0 : Math.min(actor.stats.maxHp * balance.battle.defendHealRatio, actor.stats.maxHp - actor.currentHp);
+        const targetLocked = isActionLocked(target.statuses);
+        const targetActsFirst = !targetLocked && target.cooldown <= actor.stats.attackSpeed;
+
+        // Finishing blow: the next attack kills the target
+        if (attackDmg >= target.currentHp) atkWeight *= 1 + aggr * 4;
+        // Frozen target cannot retaliate — press the advantage instead of bracing
+        if (targetLocked) {
+            atkWeight *= 1 + aggr * 2;
+            defWeight *= 1 - defInstinct * 0.8;
+        }
+
+        // Defend only pays off when it heals; brace when the target's next hit is heavy
+        if (healValue <= 0) {
+            defWeight *= 1 - defInstinct * 0.9;
+        } else if (targetActsFirst && incomingDmg >= actor.currentHp * 0.5) {
+            defWeight *= 1 + defInstinct * 3;
+        }
+
+        // Bad matchup / high resistance: skills may roll a mutation with another element
+        const affinity = ItemDecoder.getAffinity(actor.stats.element, target.stats.element, balance);
+        if (affinity < 1 || this.getResistance(target, actor.stats.element) > 0.3) {
+            skillWeight *= 1 + tact * 2;
+        }
+        // Taking damage over time: heal it off rather than trade blows
+        if (actor.statuses.some(st => st.dps > 0) && healValue > 0) {
+            defWeight *= 1 + tact;
         }
 
         // Normalize
@@ -336,33 +1086,65 @@ export class TextBattleEngine {
         defWeight /= total;
         skillWeight /= total;
 
-        const roll = Math.random();
+        const roll = rng();
         if (roll < atkWeight) return 'attack';
         if (roll < atkWeight + skillWeight) return 'skill';
         return 'defend';
     }
 
-    /** Execute an action and return a log entry */
+    /** Expected non-crit damage of one normal hit — the AI lookahead's damage model */
+    private static estimateDamage(actor: Combatant, target: Combatant, balance: BalanceConfig): number {
+        const element = actor.stats.element;
+        const resist = this.getResistance(target, element);
+        return actor.stats.attack * (1 - resist * balance.battle.resistScale)
+            * ItemDecoder.getAffinity(element, target.stats.element, balance)
+            * this.getDefenseReduction(actor, target, balance);
+    }
+
+    /**
+     * Execute an action and return a log entry.
+     * `bystanders` are the target's allies — chain_explosion splashes onto them.
+     */
     private static executeAction(
         actor: Combatant,
         target: Combatant,
         action: ActionType,
         time: number,
         genome: Genome,
-        critBonus: number = 0,
+        balance: BalanceConfig,
+        rng: Rng,
+        bystanders: Combatant[],
     ): BattleLogEntry | null {
         const timeStr = time.toFixed(1);
+        const { resistScale, skillMultiplier, defendHealRatio, mutationChance } = balance.battle;
+
+        // Homing: the dodge roll succeeded but the shot tracked the target anyway
+        let tracked = false;
+        if (action !== 'defend') {
+            const evade = this.resolveEvasion(actor, target, rng);
+            if (evade === 'evaded') {
+                return {
+                    time, actor: actor.actor, action, isEvade: true,
+                    message: `💨 [${timeStr}s] ${target.name}が${actor.name}の攻撃を回避！`,
+                    element: actor.stats.element,
+                };
+            }
+            tracked = evade === 'homing';
+        }
 
         switch (action) {
             case 'attack': {
                 const baseDmg = actor.stats.attack;
                 const resist = this.getResistance(target, actor.stats.element);
-                const dmgAfterResist = baseDmg * (1 - resist * 0.8);
-                // Defense reduction: 100/(100+def) scaling
-                const defReduction = 100 / (100 + target.stats.defense);
+                const affinity = ItemDecoder.getAffinity(actor.stats.element, target.stats.element, balance);
+                const dmgAfterResist = baseDmg * (1 - resist * resistScale) * affinity;
+                // Defense reduction: K/(K+def) scaling
+                const defReduction = this.getDefenseReduction(actor, target, balance);
                 const dmgAfterDef = dmgAfterResist * defReduction;
-                const isCrit = Math.random() < 0.1 + genome[5] * 0.1 + critBonus;
-                const finalDmg = Math.round((isCrit ? dmgAfterDef * 2 : dmgAfterDef) * 10) / 10;
+                const isCrit = rng() < actor.stats.critRate;
+                const critMult = isCrit ? actor.stats.critDamage : 1;
+                const finalDmg = Math.round(dmgAfterDef * critMult * 10) / 10;
+                this.tallyResist(actor.resistTally, baseDmg * affinity * defReduction * critMult, 1 - resist * resistScale);
 
                 target.currentHp -= finalDmg;
 
@@ -370,52 +1152,94 @@ export class TextBattleEngine {
                 let msg = `${elemTag} [${timeStr}s] ${actor.name}の攻撃。${target.name}に${finalDmg}ダメージ`;
                 if (isCrit) msg += '（クリティカル！）';
                 if (resist > 0.3) msg += `。${target.name}の${ItemDecoder.getElementLabel(actor.stats.element).slice(2)}耐性でダメージ軽減`;
+                msg += this.getAffinityNote(affinity);
+                const ability = this.applyAbilityEffects(actor, target, bystanders, finalDmg, tracked, balance);
+                if (ability) msg += ability.note;
 
                 return {
                     time, actor: actor.actor, action, message: msg,
                     damage: finalDmg, isCrit, element: actor.stats.element,
+                    ability: ability?.special,
                 };
             }
 
             case 'skill': {
                 // Mutation skill — chance based on tactical variety gene
-                const hasMutation = Math.random() < genome[7] * 0.4;
+                const hasMutation = rng() < genome[7] * mutationChance;
 
                 if (hasMutation && actor.stats.special !== 'none') {
-                    const skill = MUTATION_SKILLS[Math.floor(Math.random() * MUTATION_SKILLS.length)];
+                    const skill = MUTATION_SKILLS[Math.floor(rng() * MUTATION_SKILLS.length)];
                     const skillElement = skill.element || actor.stats.element;
                     const resist = this.getResistance(target, skillElement);
+                    const affinity = ItemDecoder.getAffinity(skillElement, target.stats.element, balance);
                     const rawDmg = actor.stats.attack * skill.damageMultiplier;
-                    const defRed = 100 / (100 + target.stats.defense);
-                    const finalDmg = Math.round(rawDmg * (1 - resist * 0.8) * defRed * 10) / 10;
+                    const defRed = this.getDefenseReduction(actor, target, balance);
+                    const finalDmg = Math.round(rawDmg * (1 - resist * resistScale) * affinity * defRed * 10) / 10;
+                    this.tallyResist(actor.resistTally, rawDmg * affinity * defRed, 1 - resist * resistScale);
 
                     target.currentHp -= finalDmg;
+                    const ability = this.applyAbilityEffects(actor, target, bystanders, finalDmg, tracked, balance);
+
+                    let statusNote = '';
+                    if (skill.status && target.currentHp > 0) {
+                        const st = skill.status;
+                        const effect = applyStatus(target.statuses, st.kind, st.duration, actor.stats.attack * st.dpsRatio, actor.actor, actor.index);
+                        const def = STATUS_DEFS[st.kind];
+                        statusNote = ` ${def.icon}${def.name}(${st.duration}秒${effect.stacks > 1 ? `・${effect.stacks}層` : ''})`;
+                    }
+
+                    // AoE skill: every other living enemy takes the same skill hit
+                    let aoeNote = '';
+                    if (skill.aoe) {
+                        const aoeTargets = bystanders.filter(b => b.currentHp > 0);
+                        for (const b of aoeTargets) {
+                            const bResist = this.getResistance(b, skillElement);
+                            const bAffinity = ItemDecoder.getAffinity(skillElement, b.stats.element, balance);
+                            const bDefRed = this.getDefenseReduction(actor, b, balance);
+                            const bDmg = Math.round(rawDmg * (1 - bResist * resistScale) * bAffinity * bDefRed * 10) / 10;
+                            this.tallyResist(actor.resistTally, rawDmg * bAffinity * bDefRed, 1 - bResist * resistScale);
+                            b.currentHp -= bDmg;
+                        }
+                        if (aoeTargets.length > 0) aoeNote = ` (範囲: 他${aoeTargets.length}体にも命中)`;
+                    }
 
                     const skillElemTag = this.getElementTag(skillElement);
                     return {
                         time, actor: actor.actor, action, isMutation: true,
-                        message: `${skillElemTag} [${timeStr}s] 突然変異遺伝子：【${skill.name}】が発動！${target.name}に${finalDmg}ダメージ`,
+                        message: `${skillElemTag} [${timeStr}s] 突然変異遺伝子：【${skill.name}】が発動！${target.name}に${finalDmg}ダメージ${this.getAffinityNote(affinity)}${statusNote}${aoeNote}${ability?.note ?? ''}`,
                         damage: finalDmg, element: skillElement,
+                        ability: ability?.special,
+                        status: statusNote ? skill.status!.kind : undefined,
                     };
                 }
 
                 // Normal skill — slightly stronger attack with element
-                const skillDmg = actor.stats.attack * 1.3;
+                const skillDmg = actor.stats.attack * skillMultiplier;
                 const resist = this.getResistance(target, actor.stats.element);
-                const defRed2 = 100 / (100 + target.stats.defense);
-                const finalDmg = Math.round(skillDmg * (1 - resist * 0.8) * defRed2 * 10) / 10;
+                const affinity = ItemDecoder.getAffinity(actor.stats.element, target.stats.element, balance);
+                const defRed2 = this.getDefenseReduction(actor, target, balance);
+                const finalDmg = Math.round(skillDmg * (1 - resist * resistScale) * affinity * defRed2 * 10) / 10;
+                this.tallyResist(actor.resistTally, skillDmg * affinity * defRed2, 1 - resist * resistScale);
                 target.currentHp -= finalDmg;
+                const ability = this.applyAbilityEffects(actor, target, bystanders, finalDmg, tracked, balance);
 
                 const elemTag2 = this.getElementTag(actor.stats.element);
                 return {
                     time, actor: actor.actor, action,
-                    message: `${elemTag2} [${timeStr}s] ${actor.name}が${ItemDecoder.getElementLabel(actor.stats.element).slice(2)}スキルを発動。${finalDmg}ダメージ`,
+                    message: `${elemTag2} [${timeStr}s] ${actor.name}が${ItemDecoder.getElementLabel(actor.stats.element).slice(2)}スキルを発動。${finalDmg}ダメージ${this.getAffinityNote(affinity)}${ability?.note ?? ''}`,
                     damage: finalDmg, element: actor.stats.element,
+                    ability: ability?.special,
                 };
             }
 
             case 'defend': {
-                const healAmount = Math.round(actor.stats.maxHp * 0.05 * 10) / 10;
+                if (actor.healBlocked) {
+                    return {
+                        time, actor: actor.actor, action,
+                        message: `[${timeStr}s] ${actor.name}が防御体勢。回復不可`,
+                    };
+                }
+                const healAmount = Math.round(actor.stats.maxHp * defendHealRatio * 10) / 10;
                 actor.currentHp = Math.min(actor.stats.maxHp, actor.currentHp + healAmount);
 
                 return {
@@ -426,6 +1250,83 @@ export class TextBattleEngine {
         }
     }
 
+    /**
+     * Record one hit for the adaptation score: its damage with the target's
+     * resistance ignored, and the share (`resistMult`) that actually got through.
+     */
+    static tallyResist(tally: ResistTally, preResist: number, resistMult: number): void {
+        tally.preResist += preResist;
+        tally.postResist += preResist * resistMult;
+    }
+
+    /** Damage-weighted share of the tallied hits that got past resistances (0.5 if nothing hit) */
+    static getAdaptationScore(tally: ResistTally): number {
+        return tally.preResist > 0 ? tally.postResist / tally.preResist : 0.5;
+    }
+
+    /**
+     * Dodge roll. Homing shots cannot be dodged — reported separately so the
+     * log can name the ability that negated the evasion.
+     */
+    private static resolveEvasion(actor: Combatant, target: Combatant, rng: Rng): 'hit' | 'evaded' | 'homing' {
+        if (target.stats.evasion <= 0) return 'hit';
+        if (rng() >= target.stats.evasion) return 'hit';
+        return SPECIAL_ABILITY_RULES[actor.stats.special].ignoresEvasion ? 'homing' : 'evaded';
+    }
+
+    /** Defense reduction K/(K+def) (K = balance.battle.defenseConstant), with piercing ignoring part of the defense */
+    private static getDefenseReduction(actor: Combatant, target: Combatant, balance: BalanceConfig): number {
+        const pierce = SPECIAL_ABILITY_RULES[actor.stats.special].defensePierce;
+        const k = balance.battle.defenseConstant;
+        return k / (k + target.stats.defense * (1 - pierce));
+    }
+
+    /**
+     * Post-hit special ability effects. Returns the ability that fired
+     * and a log suffix naming it, or null if nothing fired.
+     */
+    private static applyAbilityEffects(
+        actor: Combatant,
+        target: Combatant,
+        bystanders: Combatant[],
+        damage: number,
+        tracked: boolean,
+        balance: BalanceConfig,
+    ): { special: SpecialAbility; note: string } | null {
+        const special = actor.stats.special;
+        const rule = SPECIAL_ABILITY_RULES[special];
+        const label = ItemDecoder.getSpecialLabel(special);
+
+        if (tracked) {
+            return { special, note: ` 【${label}】回避を無効化` };
+        }
+
+        if (rule.defensePierce > 0 && target.stats.defense > 0) {
+            // Damage gain vs. an unpierced hit: (K + def) / (K + def × (1 - pierce))
+            const k = balance.battle.defenseConstant;
+            const gain = (k + target.stats.defense) / (k + target.stats.defense * (1 - rule.defensePierce)) - 1;
+            if (gain < PIERCE_PROC_MIN_GAIN) return null;
+            return { special, note: ` 【${label}】防御${Math.round(rule.defensePierce * 100)}%無視` };
+        }
+
+        if (rule.splashRatio > 0) {
+            const splashTargets = bystanders.filter(b => b.currentHp > 0);
+            if (splashTargets.length === 0) return null;
+            const splash = Math.round(damage * rule.splashRatio * 10) / 10;
+            for (const b of splashTargets) b.currentHp -= splash;
+            return { special, note: ` 【${label}】周囲${splashTargets.length}体に${splash}ダメージ` };
+        }
+
+        return null;
+    }
+
+    /** Log suffix calling out elemental affinity (see BalanceConfig battle.elementAffinity) */
+    private static getAffinityNote(affinity: number): string {
+        if (affinity > 1) return ' 効果抜群！';
+        if (affinity < 1) return ' 効果いまひとつ…';
+        return '';
+    }
+
     /** Get element tag for log messages */
     private static getElementTag(element: ElementType): string {
         switch (element) {
@@ -5,7 +5,8 @@
  * inheritance logic, crystallization choices
  */
 
-import type { CombatStats } from './ItemDecoder';
+import type { BattleStats, CombatStats } from './ItemDecoder';
+import type { Rng } from './mathUtils';
 
 // ========== TYPES ==========
 
@@ -25,14 +26,44 @@ export interface TraitDefinition {
     penalties: Partial<Record<keyof CombatStats | 'critRate' | 'evasion' | 'hpDecayPerSec' | 'maxHpDecayPerWave' | 'critDamage', number>>;
     // special flags
     element?: 'Fire' | 'Ice' | 'Lightning';  // element-linked only
-    berserkThreshold?: number;  // HP ratio to trigger
     mutationChance?: number;    // appearance rate modifier
+    triggers?: TraitTriggerDef[];  // conditional effects evaluated in battle
+}
+
+export type TraitTrigger = 'on_tick' | 'on_threshold' | 'on_hit' | 'on_defend' | 'on_action';
+
+/**
+ * Conditional trait effect. applyTraits only handles the static bonuses —
+ * the battle engine evaluates these while the fight runs.
+ */
+export interface TraitTriggerDef {
+    on: TraitTrigger;
+    interval?: number;        // on_tick: seconds between procs
+    hpBelow?: number;         // on_threshold: fires once HP ratio drops to this
+    chance?: number;          // on_hit: proc chance per hit
+    // effects
+    statGrowth?: number;      // on_tick: attack/defense/maxHp ×(1+X), cumulative
+    statMods?: Partial<Record<'attack' | 'defense', number>>;  // on_threshold: ×(1+X), floor 0
+    lifestealMult?: number;   // on_threshold: lifesteal multiplier
+    freeze?: number;          // on_hit: freeze status duration (seconds the target's cooldown stops)
+    dotLifesteal?: boolean;   // on_hit: DoT damage also counts for lifesteal
+    blockHeal?: boolean;      // on_defend: defend heal and lifesteal disabled
+    elementShift?: boolean;   // on_action: element re-rolled before every action
+    attackDecay?: number;     // on_action: attack ×(1-X) after every action
+}
+
+/** Trigger resolved from an owned trait or active synergy, with its display info */
+export interface ActiveTraitTrigger extends TraitTriggerDef {
+    source: string;   // trait / synergy name
+    icon: string;
+    desc: string;
 }
 
 export interface TraitInstance {
     defId: string;         // references TraitDefinition.id
     rank: TraitRank;
     source: 'inherited' | 'mutation' | 'crystal_extract';
+    penaltyBaked?: boolean;   // stat penalties already in the genome (migrated legacy diseases) — applyTraits skips them
 }
 
 // ========== CONSTANTS ==========
@@ -43,6 +74,7 @@ export const TRAIT_CONFIG = {
     rankCapacity: { Common: 1, Rare: 2, Epic: 3, Legendary: 4 } as const,
     purePositiveMutationChance: 0.12,  // 12% when mutation occurs
     diseaseBaseChance: 0.40,           // COI × 40%
+    evasionCap: 0.75,                  // dodge chance can never exceed 75%
 } as const;
 
 // ========== TRAIT LIBRARY ==========
@@ -101,12 +133,14 @@ export const TRAIT_LIBRARY: TraitDefinition[] = [
     {
         id: 'MUT_002', name: '狂戦士化', rank: 'Epic', category: 'mutation', capacity: 3,
         icon: '👹', desc: 'HP50%以下で攻撃力2倍。防御0',
-        bonuses: { attack: 1.00 }, penalties: { defense: -1.00 }, berserkThreshold: 0.50
+        bonuses: {}, penalties: {},
+        triggers: [{ on: 'on_threshold', hpBelow: 0.50, statMods: { attack: 1.00, defense: -1.00 } }]
     },
     {
         id: 'MUT_003', name: '適者生存', rank: 'Legendary', category: 'mutation', capacity: 4,
         icon: '🧬', desc: '10秒毎に全ステ+5%累積。初期ステ-15%',
-        bonuses: {}, penalties: { attack: -0.15, defense: -0.15, maxHp: -0.15 }
+        bonuses: {}, penalties: { attack: -0.15, defense: -0.15, maxHp: -0.15 },
+        triggers: [{ on: 'on_tick', interval: 10, statGrowth: 0.05 }]
     },
     {
         id: 'MUT_004', name: '呪詛の刃', rank: 'Rare', category: 'mutation', capacity: 2,
@@ -157,8 +191,31 @@ export const TRAIT_LIBRARY: TraitDefinition[] = [
         icon: '🩸', desc: 'Wave毎にmaxHP-5%',
         bonuses: {}, penalties: { maxHpDecayPerWave: 0.05 }
     },
+    {
+        id: 'GD_005', name: '攻撃減衰', rank: 'Common', category: 'genetic_disease', capacity: 0,
+        icon: '📉', desc: '行動毎に攻撃力-1%',
+        bonuses: {}, penalties: {},
+        triggers: [{ on: 'on_action', attackDecay: 0.01 }]
+    },
+    {
+        id: 'GD_006', name: '属性不安定', rank: 'Common', category: 'genetic_disease', capacity: 0,
+        icon: '🌀', desc: '行動毎に属性がランダム変化',
+        bonuses: {}, penalties: {},
+        triggers: [{ on: 'on_action', elementShift: true }]
+    },
 ];
 
+/**
+ * Legacy `Item.geneticDisease` values (pre-trait saves / replay codes) → disease trait.
+ * The old birth-time genome penalty stays baked into those genomes.
+ */
+export const LEGACY_DISEASE_TRAITS: Record<string, string> = {
+    fragile_genome: 'GD_001',
+    slow_metabolism: 'GD_002',
+    attack_decay: 'GD_005',
+    element_instability: 'GD_006',
+};
+
 // ========== SYNERGY PAIRS ==========
 
 export interface SynergyPair {
@@ -168,33 +225,40 @@ export interface SynergyPair {
     icon: string;
     desc: string;
     bonuses: Partial<Record<string, number>>;
+    penalties?: Partial<Record<string, number>>;
+    triggers?: TraitTriggerDef[];
 }
 
 export const SYNERGY_PAIRS: SynergyPair[] = [
     {
         traitA: 'ELT_002', traitB: 'ELT_003',
         resultName: '絶対零度', icon: '🧊⚡',
-        desc: '攻撃毎に5%で敵を凍結', bonuses: { freezeChance: 0.05 }
+        desc: '攻撃毎に5%で敵を凍結', bonuses: {},
+        triggers: [{ on: 'on_hit', chance: 0.05, freeze: 2.0 }]
     },
     {
         traitA: 'ELT_001', traitB: 'SST_001',
         resultName: '超新星', icon: '💥🔥',
-        desc: 'HP20%以下で攻撃力+100%', bonuses: { attack: 1.00 }
+        desc: 'HP20%以下で攻撃力+100%', bonuses: {},
+        triggers: [{ on: 'on_threshold', hpBelow: 0.20, statMods: { attack: 1.00 } }]
     },
     {
         traitA: 'SST_003', traitB: 'MUT_002',
         resultName: '血の渇望', icon: '🩸⚔️',
-        desc: 'HP50%以下で吸血量2倍', bonuses: { lifesteal: 0.20 }
+        desc: 'HP50%以下で吸血量2倍', bonuses: {},
+        triggers: [{ on: 'on_threshold', hpBelow: 0.50, lifestealMult: 2 }]
     },
     {
         traitA: 'SST_004', traitB: 'MUT_001',
         resultName: '修羅', icon: '👹⚔️',
-        desc: '攻撃+100%。防御0、回復0', bonuses: { attack: 1.00 }
+        desc: '攻撃+100%。防御0、回復0', bonuses: { attack: 1.00 }, penalties: { defense: -1.00 },
+        triggers: [{ on: 'on_defend', blockHeal: true }]
     },
     {
         traitA: 'MUT_004', traitB: 'SST_003',
         resultName: '死食い', icon: '☠️🍽️',
-        desc: 'DoTダメも吸血対象に', bonuses: { dotOnHit: 0.01 }
+        desc: 'DoTダメも吸血対象に', bonuses: {},
+        triggers: [{ on: 'on_hit', dotLifesteal: true }]
     },
 ];
 
@@ -216,20 +280,25 @@ export function calcStackedEffect(individualEffect: number, stackCount: number):
 }
 
 /**
- * Apply all traits to base combat stats.
+ * Apply all traits to a battle stat block.
  * Handles:
  * - Capacity (器) overflow check — excess traits randomly removed
  * - Same-stat stacking with diminishing returns
  * - Penalty application
+ * - Extended stats (critRate / evasion / critDamage)
  */
 export function applyTraits(
-    baseStats: CombatStats,
+    baseStats: BattleStats,
     traits: TraitInstance[],
-    berserkActive: boolean = false,
-): { stats: CombatStats; activeTraits: TraitInstance[]; lostTraits: string[]; activeSynergies: string[] } {
+): { stats: BattleStats; activeTraits: TraitInstance[]; lostTraits: string[]; activeSynergies: string[] } {
     const stats = { ...baseStats };
     const lostTraits: string[] = [];
-    let activeTraits = [...traits].slice(0, TRAIT_CONFIG.maxSlots);
+    // Migrated legacy diseases sit outside the slot cap and capacity (see addLegacyDiseaseTrait)
+    const baked = traits.filter(t => t.penaltyBaked);
+    // Diseases take no slot, so breeding can always add one
+    let slotsUsed = 0;
+    let activeTraits = traits.filter(t => !t.penaltyBaked
+        && (isDiseaseTrait(t) || slotsUsed++ < TRAIT_CONFIG.maxSlots));
 
     // 1) Capacity check
     let totalCap = 0;
@@ -246,6 +315,7 @@ export function applyTraits(
         lostTraits.push(removed.defId);
         totalCap -= TRAIT_CONFIG.rankCapacity[removed.rank];
     }
+    activeTraits = [...baked, ...activeTraits];
 
     // 2) Collect all stat modifiers
     const bonusAccum: Record<string, number[]> = {};
@@ -255,13 +325,11 @@ export function applyTraits(
         const def = getTraitDef(t.defId);
         if (!def) continue;
 
-        // Skip berserk traits unless threshold met
-        if (def.berserkThreshold && !berserkActive) continue;
-
         for (const [key, val] of Object.entries(def.bonuses)) {
             if (!bonusAccum[key]) bonusAccum[key] = [];
             bonusAccum[key].push(val as number);
         }
+        if (t.penaltyBaked) continue;
         for (const [key, val] of Object.entries(def.penalties)) {
             if (!penaltyAccum[key]) penaltyAccum[key] = [];
             penaltyAccum[key].push(val as number);
@@ -278,6 +346,10 @@ export function applyTraits(
                 if (!bonusAccum[key]) bonusAccum[key] = [];
                 bonusAccum[key].push(val as number);
             }
+            for (const [key, val] of Object.entries(syn.penalties ?? {})) {
+                if (!penaltyAccum[key]) penaltyAccum[key] = [];
+                penaltyAccum[key].push(val as number);
+            }
         }
     }
 
@@ -302,7 +374,11 @@ export function applyTraits(
             case 'fireResist': stats.fireResist = Math.min(0.95, Math.max(0, stats.fireResist + finalVal)); break;
             case 'iceResist': stats.iceResist = Math.min(0.95, Math.max(0, stats.iceResist + finalVal)); break;
             case 'lightningResist': stats.lightningResist = Math.min(0.95, Math.max(0, stats.lightningResist + finalVal)); break;
-            // Extended stats stored directly won't affect CombatStats but will be read by battle engine
+            // Extended battle stats — additive, like resistances
+            case 'critRate': stats.critRate = Math.min(1, Math.max(0, stats.critRate + finalVal)); break;
+            case 'evasion': stats.evasion = Math.min(TRAIT_CONFIG.evasionCap, Math.max(0, stats.evasion + finalVal)); break;
+            case 'critDamage': stats.critDamage = Math.max(1, stats.critDamage + finalVal); break;
+            // lifesteal / thornDmg / dotOnHit etc. are read via getTraitCombatEffects
         }
     };
 
@@ -327,8 +403,8 @@ export function applyTraits(
  * Only triggers on successful mutation (called from breed).
  * Returns null if no trait gained.
  */
-export function rollTraitOnMutation(): TraitInstance | null {
-    if (Math.random() > TRAIT_CONFIG.purePositiveMutationChance) return null;
+export function rollTraitOnMutation(rng: Rng = Math.random): TraitInstance | null {
+    if (rng() > TRAIT_CONFIG.purePositiveMutationChance) return null;
 
     const pool = TRAIT_LIBRARY.filter(t => t.category === 'pure_positive');
     // Weighted by rarity (rarer = less likely)
@@ -341,7 +417,7 @@ export function rollTraitOnMutation(): TraitInstance | null {
         }
     });
     const totalWeight = weights.reduce((a, b) => a + b, 0);
-    let roll = Math.random() * totalWeight;
+    let roll = rng() * totalWeight;
     for (let i = 0; i < pool.length; i++) {
         roll -= weights[i];
         if (roll <= 0) {
@@ -351,26 +427,69 @@ export function rollTraitOnMutation(): TraitInstance | null {
     return null;
 }
 
+/** Whether a trait instance is a genetic disease */
+export function isDiseaseTrait(trait: TraitInstance): boolean {
+    return getTraitDef(trait.defId)?.category === 'genetic_disease';
+}
+
+/** Disease traits an item carries, for warnings / labels */
+export function getDiseaseTraits(traits: TraitInstance[] = []): TraitDefinition[] {
+    return traits
+        .map(t => getTraitDef(t.defId))
+        .filter((d): d is TraitDefinition => d?.category === 'genetic_disease');
+}
+
+/** Pick one random genetic disease trait */
+export function rollDiseaseTrait(rng: Rng = Math.random): TraitInstance {
+    const pool = TRAIT_LIBRARY.filter(t => t.category === 'genetic_disease');
+    const disease = pool[Math.floor(rng() * pool.length)];
+    return { defId: disease.id, rank: disease.rank, source: 'inherited' };
+}
+
+/** Pick one of the four original (pre-trait) genetic diseases as its trait */
+export function rollLegacyDiseaseTrait(rng: Rng = Math.random): TraitInstance {
+    const ids = Object.values(LEGACY_DISEASE_TRAITS);
+    const pool = TRAIT_LIBRARY.filter(t => ids.includes(t.id));
+    const disease = pool[Math.floor(rng() * pool.length)];
+    return { defId: disease.id, rank: disease.rank, source: 'inherited' };
+}
+
+/**
+ * Convert a legacy GeneticDisease string into its trait (null if unknown).
+ * The old disease already changed the genome at birth, so the trait is penaltyBaked.
+ */
+export function legacyDiseaseToTrait(disease: unknown): TraitInstance | null {
+    const id = typeof disease === 'string' ? LEGACY_DISEASE_TRAITS[disease] : undefined;
+    const def = id ? getTraitDef(id) : undefined;
+    return def ? { defId: def.id, rank: def.rank, source: 'inherited', penaltyBaked: true } : null;
+}
+
+/**
+ * Add a migrated legacy disease to a trait list (returns a new list, disease first).
+ * Being penaltyBaked, it sits outside the slot cap, so no owned trait is ever displaced.
+ */
+export function addLegacyDiseaseTrait(traits: TraitInstance[], disease: TraitInstance): TraitInstance[] {
+    if (traits.some(t => t.defId === disease.defId)) return traits;
+    return [disease, ...traits];
+}
+
 /**
  * Roll genetic diseases based on inbreeding coefficient (COI).
  * Disease chance = COI × 40%
  * Higher COI may produce multiple diseases.
  */
-export function rollDiseaseOnInbreed(coi: number): TraitInstance[] {
+export function rollDiseaseOnInbreed(coi: number, rng: Rng = Math.random): TraitInstance[] {
     const diseases: TraitInstance[] = [];
     const chance = coi * TRAIT_CONFIG.diseaseBaseChance;
 
-    if (Math.random() < chance) {
-        const pool = TRAIT_LIBRARY.filter(t => t.category === 'genetic_disease');
-        const disease = pool[Math.floor(Math.random() * pool.length)];
-        diseases.push({ defId: disease.id, rank: disease.rank, source: 'inherited' });
+    if (rng() < chance) {
+        const disease = rollDiseaseTrait(rng);
+        diseases.push(disease);
 
         // High COI: chance for second disease
-        if (coi > 0.35 && Math.random() < coi * 0.30) {
-            const second = pool[Math.floor(Math.random() * pool.length)];
-            if (second.id !== disease.id) {
-                diseases.push({ defId: second.id, rank: second.rank, source: 'inherited' });
-            }
+        if (coi > 0.35 && rng() < coi * 0.30) {
+            const second = rollDiseaseTrait(rng);
+            if (second.defId !== disease.defId) diseases.push(second);
         }
     }
 
@@ -388,6 +507,7 @@ export function resolveTraitInheritance(
     parentATraits: TraitInstance[],
     parentBTraits: TraitInstance[],
     coi: number,
+    rng: Rng = Math.random,
 ): TraitInstance[] {
     const childTraits: TraitInstance[] = [];
     const usedIds = new Set<string>();
@@ -411,7 +531,7 @@ export function resolveTraitInheritance(
             inheritChance = 0.30 * (1 + coi);      // standard traits
         }
 
-        if (Math.random() < inheritChance) {
+        if (rng() < inheritChance) {
             childTraits.push({ defId: t.defId, rank: t.rank, source: 'inherited' });
             usedIds.add(t.defId);
         }
@@ -419,7 +539,7 @@ export function resolveTraitInheritance(
 
     // Roll new diseases from inbreeding
     if (coi > 0) {
-        const newDiseases = rollDiseaseOnInbreed(coi);
+        const newDiseases = rollDiseaseOnInbreed(coi, rng);
         for (const d of newDiseases) {
             if (childTraits.length >= TRAIT_CONFIG.maxSlots) break;
             if (!usedIds.has(d.defId)) {
@@ -431,7 +551,7 @@ export function resolveTraitInheritance(
 
     // Roll for mutation-triggered pure positive
     if (childTraits.length < TRAIT_CONFIG.maxSlots) {
-        const mutTrait = rollTraitOnMutation();
+        const mutTrait = rollTraitOnMutation(rng);
         if (mutTrait && !usedIds.has(mutTrait.defId)) {
             childTraits.push(mutTrait);
         }
@@ -460,12 +580,11 @@ export function getTraitCombatEffects(traits: TraitInstance[]): {
     dotOnHit: number;
     hpDecayPerSec: number;
     maxHpDecayPerWave: number;
-    berserkThreshold: number;
     selfDestructChance: number;
 } {
     let lifesteal = 0, thornDmg = 0, dotOnHit = 0;
     let hpDecayPerSec = 0, maxHpDecayPerWave = 0;
-    let berserkThreshold = 0, selfDestructChance = 0;
+    let selfDestructChance = 0;
 
     for (const t of traits) {
         const def = getTraitDef(t.defId);
@@ -476,11 +595,33 @@ export function getTraitCombatEffects(traits: TraitInstance[]): {
         if (def.bonuses.dotOnHit) dotOnHit += def.bonuses.dotOnHit;
         if (def.penalties.hpDecayPerSec) hpDecayPerSec += def.penalties.hpDecayPerSec;
         if (def.penalties.maxHpDecayPerWave) maxHpDecayPerWave += def.penalties.maxHpDecayPerWave;
-        if (def.berserkThreshold) berserkThreshold = def.berserkThreshold;
         if (def.mutationChance) selfDestructChance += def.mutationChance;
     }
 
-    return { lifesteal, thornDmg, dotOnHit, hpDecayPerSec, maxHpDecayPerWave, berserkThreshold, selfDestructChance };
+    return { lifesteal, thornDmg, dotOnHit, hpDecayPerSec, maxHpDecayPerWave, selfDestructChance };
+}
+
+/**
+ * Collect the conditional triggers of the given traits and of every synergy they complete.
+ */
+export function getTraitTriggers(traits: TraitInstance[]): ActiveTraitTrigger[] {
+    const triggers: ActiveTraitTrigger[] = [];
+    const traitIds = new Set(traits.map(t => t.defId));
+
+    for (const id of traitIds) {
+        const def = getTraitDef(id);
+        for (const trig of def?.triggers ?? []) {
+            triggers.push({ ...trig, source: def!.name, icon: def!.icon, desc: def!.desc });
+        }
+    }
+    for (const syn of SYNERGY_PAIRS) {
+        if (!traitIds.has(syn.traitA) || !traitIds.has(syn.traitB)) continue;
+        for (const trig of syn.triggers ?? []) {
+            triggers.push({ ...trig, source: syn.resultName, icon: syn.icon, desc: syn.desc });
+        }
+    }
+
+    return triggers;
 }
 
 /**
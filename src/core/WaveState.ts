@@ -0,0 +1,103 @@
+/**
+ * Chimera Gear: Text Edition — Wave State
+ * Weapon state that persists across the waves of one stage run:
+ * carried HP, max HP modifiers, accumulated debuffs
+ */
+
+import type { Genome } from './GeneticEngine';
+import type { BattleResult } from './TextBattleEngine';
+import { TextBattleEngine } from './TextBattleEngine';
+import { getTraitDef, type TraitInstance } from './TraitSystem';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
+
+// ========== TYPES ==========
+
+/** A wave-persistent debuff, stacked once per wave transition */
+export interface WaveDebuff {
+    traitId: string;
+    name: string;
+    icon: string;
+    stacks: number;
+}
+
+export interface WeaponWaveState {
+    wavesCleared: number;
+    hp: number | null;       // carried HP (null = full HP, first wave)
+    maxHpMult: number;       // accumulated max HP modifier
+    debuffs: WaveDebuff[];
+}
+
+/** The part of the wave state the battle engine needs */
+export type WeaponCarry = Pick<WeaponWaveState, 'hp' | 'maxHpMult'>;
+
+export interface WaveTransition {
+    state: WeaponWaveState;
+    maxHp: number;           // max HP for the next wave
+    heal: number;
+    decayed: WaveDebuff[];   // debuffs that stacked this transition
+}
+
+// ========== CONSTANTS ==========
+
+export const WAVE_CLEAR_HEAL_RATIO = 0.40;
+
+// ========== MANAGER ==========
+
+export class WaveStateManager {
+    /** Fresh state for the start of a stage run */
+    static create(): WeaponWaveState {
+        return { wavesCleared: 0, hp: null, maxHpMult: 1, debuffs: [] };
+    }
+
+    /** Carry the weapon's remaining HP out of a battle */
+    static afterBattle(state: WeaponWaveState, result: BattleResult): WeaponWaveState {
+        return { ...state, hp: result.weaponHpRemaining };
+    }
+
+    /**
+     * Between waves: stack per-wave max HP decay (GD_004 傷口が開く), then heal
+     * WAVE_CLEAR_HEAL_RATIO of the new max HP.
+     */
+    static advanceWave(
+        state: WeaponWaveState,
+        weapon: { genome: Genome; traits?: TraitInstance[]; mastery?: number },
+        stage: number,
+        balance: BalanceConfig = DEFAULT_BALANCE,
+    ): WaveTransition {
+        const traits = weapon.traits ?? [];
+        let maxHpMult = state.maxHpMult;
+        const debuffs = state.debuffs.map(d => ({ ...d }));
+        const decayed: WaveDebuff[] = [];
+
+        for (const t of traits) {
+            const def = getTraitDef(t.defId);
+            const decay = def?.penalties.maxHpDecayPerWave;
+            if (!def || !decay) continue;
+            maxHpMult *= 1 - decay;
+            let debuff = debuffs.find(d => d.traitId === def.id);
+            if (!debuff) {
+                debuff = { traitId: def.id, name: def.name, icon: def.icon, stacks: 0 };
+                debuffs.push(debuff);
+            }
+            debuff.stacks++;
+            decayed.push(debuff);
+        }
+
+        const baseMaxHp = TextBattleEngine.buildWeaponStats(weapon.genome, stage, traits, weapon.mastery ?? 0, balance).stats.maxHp;
+        const maxHp = baseMaxHp * maxHpMult;
+        const currentHp = Math.min(maxHp, state.hp ?? maxHp);
+        const heal = Math.floor(maxHp * WAVE_CLEAR_HEAL_RATIO);
+
+        return {
+            state: {
+                wavesCleared: state.wavesCleared + 1,
+                hp: Math.min(maxHp, currentHp + heal),
+                maxHpMult,
+                debuffs,
+            },
+            maxHp,
+            heal,
+            decayed,
+        };
+    }
+}
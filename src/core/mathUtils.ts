@@ -4,6 +4,7 @@
  */
 
 import type { Genome } from './GeneticEngine';
+import { DEFAULT_BALANCE, type BalanceConfig } from './BalanceConfig';
 
 // ========== GENE UTILITIES ==========
 
@@ -12,6 +13,47 @@ export function clampGene(value: number): number {
     return Math.max(0, Math.min(1, value));
 }
 
+// ========== TIME ==========
+
+/**
+ * Snap a battle time (seconds) to the microsecond.
+ * Absorbs float drift from repeated additions, so e.g. 0.1 × 3 lands on 0.3 exactly.
+ */
+export function roundTime(seconds: number): number {
+    return Math.round(seconds * 1e6) / 1e6;
+}
+
+// ========== RANDOM NUMBER GENERATION ==========
+
+/** Random source returning a float in [0, 1). `Math.random` satisfies this. */
+export type Rng = () => number;
+
+/**
+ * Create a seedable PRNG (mulberry32).
+ * Same seed → same sequence, so battles and breeding results can be reproduced.
+ */
+export function createRng(seed: number): Rng {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Id with a 64-bit suffix drawn from `rng` — reproducible under a seeded rng, collision-safe under Math.random */
+export function randomId(prefix: string, rng: Rng = Math.random): string {
+    const part = () => Math.floor(rng() * 0x100000000).toString(36).padStart(7, '0');
+    return `${prefix}_${part()}${part()}`;
+}
+
+/** Generate a fresh 32-bit seed (non-deterministic, for starting a new recording) */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
 // ========== SOFT CAP ==========
 
 /**
@@ -109,25 +151,27 @@ export function diminishingReturns(baseValue: number, generation: number): numbe
 
 /**
  * Synchro Boost: damage & defense multiplier from mastery.
- * mastery 0 → ×1.0, mastery 100 → ×1.1 (MAX +10%)
+ * mastery 0 → ×1.0, mastery 100 → ×1.1 (MAX +10%, default balance)
  */
-export function masterySynchroBoost(mastery: number): number {
-    return 1 + Math.min(mastery, 100) / 1000;
+export function masterySynchroBoost(mastery: number, balance: BalanceConfig = DEFAULT_BALANCE): number {
+    const { cap, synchroMaxBonus } = balance.mastery;
+    return 1 + (Math.min(mastery, cap) / cap) * synchroMaxBonus;
 }
 
 /**
  * Critical rate bonus from mastery.
- * +1% per 10 mastery → MAX +10% at mastery 100.
+ * +1% per 10 mastery → MAX +10% at mastery 100 (default balance).
  */
-export function masteryCritBonus(mastery: number): number {
-    return Math.floor(Math.min(mastery, 100) / 10) * 0.01;
+export function masteryCritBonus(mastery: number, balance: BalanceConfig = DEFAULT_BALANCE): number {
+    const { cap, critTier, critPerTier } = balance.mastery;
+    return Math.floor(Math.min(mastery, cap) / critTier) * critPerTier;
 }
 
 /**
  * Whether this mastery level qualifies as "mastered" (golden name).
  */
-export function isMasteryMax(mastery: number): boolean {
-    return mastery >= 100;
+export function isMasteryMax(mastery: number, balance: BalanceConfig = DEFAULT_BALANCE): boolean {
+    return mastery >= balance.mastery.cap;
 }
 
 // ========== STAGE-BASED GENOME QUALITY ==========
@@ -145,13 +189,44 @@ export function isMasteryMax(mastery: number): boolean {
  *
  * Formula: logarithmic curve with diminishing returns at high stages
  */
-export function createStageGenome(stage: number, geneCount: number = 10): number[] {
+export function createStageGenome(stage: number, geneCount: number = 10, rng: Rng = Math.random): number[] {
     // Logarithmic progression: fast early, slow late
     const progress = Math.log(1 + stage) / Math.log(1 + 100); // 0..1 over stages 1..100
     const range = Math.min(0.25 + progress * 0.65, 0.90);
     const floor = Math.min(progress * 0.45, 0.45);
     return Array.from({ length: geneCount }, () => {
-        const raw = Math.random() * range + floor;
+        const raw = rng() * range + floor;
         return Math.max(0.01, Math.min(0.99, raw));
     });
 }
+
+// ========== STATISTICS ==========
+
+/** z-score of a two-sided 95% confidence interval */
+export const Z_95 = 1.96;
+
+/**
+ * Wilson score interval for a success rate (e.g. win rate).
+ * Stays inside [0, 1] and behaves at 0% / 100% and small samples, unlike the normal approximation.
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): [number, number] {
+    if (trials <= 0) return [0, 1];
+    const p = successes / trials;
+    const z2 = z * z;
+    const denom = 1 + z2 / trials;
+    const center = (p + z2 / (2 * trials)) / denom;
+    const margin = (z / denom) * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials));
+    return [
+        successes <= 0 ? 0 : Math.max(0, center - margin),
+        successes >= trials ? 1 : Math.min(1, center + margin),
+    ];
+}
+
+/** Percentile `p` (0–1) of ascending-sorted values, linearly interpolated (0 if empty) */
+export function percentile(sorted: number[], p: number): number {
+    if (sorted.length === 0) return 0;
+    const pos = (sorted.length - 1) * Math.max(0, Math.min(1, p));
+    const lo = Math.floor(pos);
+    const hi = Math.ceil(pos);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
@@ -7,16 +7,19 @@ import type { Item } from '../core/GeneticEngine';
 import type { BattleLogEntry, BattleResult } from '../core/TextBattleEngine';
 import type { CounterReport } from '../core/EnemyEvolution';
 import type { SimulationResult } from '../core/FastSimulator';
+import type { BattleReplay } from '../core/BattleReplay';
+import { WaveStateManager, type WeaponWaveState } from '../core/WaveState';
 import { FitnessCalculator } from '../core/FitnessCalculator';
 import { PedigreeSystem } from '../core/PedigreeSystem';
 import type { CrystallizedItem } from '../core/PedigreeSystem';
 import { SaveManager } from '../core/SaveManager';
 import type { ArchivedAncestor } from '../core/SaveManager';
 export type { ArchivedAncestor } from '../core/SaveManager';
+import type { MaterialType } from '../core/ItemDecoder';
+export type { MaterialType } from '../core/ItemDecoder';
 
 export type TabView = 'battle' | 'lab' | 'database';
 export type ItemCategory = 'battle' | 'breeding' | 'material';
-export type MaterialType = 'fire_shard' | 'ice_shard' | 'lightning_shard';
 
 export interface StageSummary {
     stage: number;
@@ -42,6 +45,9 @@ export interface GameStoreState {
     battleLogs: BattleLogEntry[];
     currentResult: BattleResult | null;
     battleSpeed: number; // 1x, 10x, 100x
+    lastReplay: BattleReplay | null;
+    isReplaying: boolean;
+    weaponWaveState: WeaponWaveState;  // HP / max HP modifiers carried across waves of the current run
 
     // Weapons (Inventory)
     inventory: Item[];
@@ -87,6 +93,9 @@ export interface GameStoreState {
     setBattleResult: (result: BattleResult) => void;
     endBattle: () => void;
     setBattleSpeed: (speed: number) => void;
+    setLastReplay: (replay: BattleReplay | null) => void;
+    setReplaying: (replaying: boolean) => void;
+    setWeaponWaveState: (state: WeaponWaveState) => void;
 
     addItem: (item: Item) => void;
     removeItem: (id: string) => void;
@@ -149,6 +158,9 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     battleLogs: [],
     currentResult: null,
     battleSpeed: 1,
+    lastReplay: null,
+    isReplaying: false,
+    weaponWaveState: WaveStateManager.create(),
 
     // Inventory
     inventory: [],
@@ -182,12 +194,15 @@ export const useGameStore = create<GameStoreState>((set, get) => ({
     materials: { fire_shard: 0, ice_shard: 0, lightning_shard: 0 },
 
     // Actions
-    startBattle: () => set({ isBattling: true, battleLogs: [], currentResult: null, stageSummary: null }),
+    startBattle: () => set({ isBattling: true, battleLogs: [], currentResult: null, stageSummary: null, weaponWaveState: WaveStateManager.create() }),
     addBattleLog: (log) => set((s) => ({ battleLogs: [...s.battleLogs, log].slice(-200) })),
     addBattleLogs: (logs) => set((s) => ({ battleLogs: [...s.battleLogs, ...logs].slice(-200) })),
     setBattleResult: (result) => set({ currentResult: result }),
     endBattle: () => set({ isBattling: false }),
     setBattleSpeed: (speed) => set({ battleSpeed: speed }),
+    setLastReplay: (replay) => set({ lastReplay: replay }),
+    setReplaying: (replaying) => set({ isReplaying: replaying }),
+    setWeaponWaveState: (state) => set({ weaponWaveState: state }),
 
     addItem: (item) => set((s) => {
         // Deduplicate by ID